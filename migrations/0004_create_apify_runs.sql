@@ -0,0 +1,28 @@
+-- Migration number: 0004    2026-10-19T09:12:40.118Z
+DROP TABLE IF EXISTS apify_runs;
+
+-- One row per Apify actor run started by the lead enrichment chain, so
+-- run-completion webhooks can be matched to their lead and handled once
+CREATE TABLE apify_runs (
+    run_id TEXT PRIMARY KEY,
+    stage TEXT NOT NULL CHECK(stage IN ('profile', 'reels', 'website')),
+    lead_id TEXT,
+    username TEXT,
+    external_url TEXT,
+    workflow_instance_id TEXT,
+    status TEXT NOT NULL DEFAULT 'READY',
+    result TEXT,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_apify_runs_lead_id ON apify_runs(lead_id);
+
+CREATE TRIGGER update_apify_runs_updated_at 
+    AFTER UPDATE ON apify_runs
+    BEGIN
+        UPDATE apify_runs 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE run_id = NEW.run_id;
+    END;
@@ -0,0 +1,33 @@
+-- Migration number: 0005    2026-10-19T10:03:17.542Z
+DROP TABLE IF EXISTS leads;
+
+-- Instagram leads and everything the enrichment chain learns about them.
+-- JSON columns hold the raw stage output (see src/lib/services/lead.ts).
+CREATE TABLE leads (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    raw_data TEXT,
+    reels TEXT,
+    er_avg REAL,
+    has_reels INTEGER,
+    website_data TEXT,
+    has_website INTEGER,
+    openai TEXT,
+    ai_analysis_complete INTEGER NOT NULL DEFAULT 0,
+    qualification TEXT,
+    qualification_score INTEGER,
+    qualification_tier TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_leads_username ON leads(username);
+CREATE INDEX idx_leads_qualification_score ON leads(qualification_score);
+
+CREATE TRIGGER update_leads_updated_at 
+    AFTER UPDATE ON leads
+    BEGIN
+        UPDATE leads 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.id;
+    END;
@@ -0,0 +1,5 @@
+-- Migration number: 0006    2026-10-19T10:41:07.532Z
+
+-- Where the profile picture was copied to in the media store (R2)
+ALTER TABLE leads ADD COLUMN profile_picture_key TEXT;
+ALTER TABLE leads ADD COLUMN profile_picture_url TEXT;
@@ -0,0 +1,44 @@
+-- Migration number: 0007    2026-10-19T11:26:52.904Z
+DROP TABLE IF EXISTS lead_batch_items;
+DROP TABLE IF EXISTS lead_batches;
+
+-- Batches of usernames submitted to POST /api/leads/batch
+CREATE TABLE lead_batches (
+    id TEXT PRIMARY KEY,
+    total INTEGER NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One row per queued lead. stages holds each stage's outcome as JSON, e.g.
+-- {"profile": "succeeded", "reels": "skipped"}
+CREATE TABLE lead_batch_items (
+    id TEXT PRIMARY KEY,
+    batch_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    lead_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'running', 'done', 'failed')),
+    stages TEXT,
+    error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (batch_id) REFERENCES lead_batches(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_lead_batch_items_batch_id ON lead_batch_items(batch_id);
+
+CREATE TRIGGER update_lead_batches_updated_at 
+    AFTER UPDATE ON lead_batches
+    BEGIN
+        UPDATE lead_batches 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.id;
+    END;
+
+CREATE TRIGGER update_lead_batch_items_updated_at 
+    AFTER UPDATE ON lead_batch_items
+    BEGIN
+        UPDATE lead_batch_items 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.id;
+    END;
@@ -0,0 +1,8 @@
+-- Migration number: 0008    2026-10-19T12:08:44.216Z
+
+-- Leads created by related-profile discovery record the seed lead they came
+-- from and how many levels below it they were found
+ALTER TABLE leads ADD COLUMN seed_lead_id TEXT;
+ALTER TABLE leads ADD COLUMN discovery_depth INTEGER;
+
+CREATE INDEX idx_leads_seed_lead_id ON leads(seed_lead_id);
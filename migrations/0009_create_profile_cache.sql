@@ -0,0 +1,22 @@
+-- Migration number: 0009    2026-10-19T12:47:19.881Z
+DROP TABLE IF EXISTS profile_cache;
+
+-- Last Instagram profile scrape per username, so repeat lookups within the
+-- TTL skip the Apify run. username is normalized (lowercase, no "@").
+CREATE TABLE profile_cache (
+    username TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    related_accounts TEXT,
+    upload TEXT,
+    scraped_at TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_profile_cache_updated_at 
+    AFTER UPDATE ON profile_cache
+    BEGIN
+        UPDATE profile_cache 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE username = NEW.username;
+    END;
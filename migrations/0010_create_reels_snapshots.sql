@@ -0,0 +1,18 @@
+-- Migration number: 0010    2026-10-19T13:34:02.677Z
+DROP TABLE IF EXISTS reels_snapshots;
+
+-- One row per reels scrape, so a lead's engagement can be charted over time
+CREATE TABLE reels_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    lead_id TEXT,
+    username TEXT,
+    er_avg REAL,
+    metrics TEXT NOT NULL,
+    reels TEXT NOT NULL,
+    taken_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_reels_snapshots_lead_id ON reels_snapshots(lead_id, taken_at);
+CREATE INDEX idx_reels_snapshots_username ON reels_snapshots(username, taken_at);
+
+ALTER TABLE leads ADD COLUMN reels_metrics TEXT;
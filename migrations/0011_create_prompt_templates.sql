@@ -0,0 +1,32 @@
+-- Migration number: 0011    2026-10-19T18:35:28.000Z
+DROP TABLE IF EXISTS prompt_templates;
+
+-- Versioned LLM prompts. At most one version per name is active; routes
+-- render the active one and record its name and version on what they save.
+-- variables is a JSON array of the {{placeholders}} the templates use.
+CREATE TABLE prompt_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    system_prompt TEXT NOT NULL,
+    user_prompt TEXT NOT NULL,
+    variables TEXT NOT NULL,
+    notes TEXT,
+    is_active INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (name, version)
+);
+
+-- One active version per prompt name
+CREATE UNIQUE INDEX idx_unique_active_prompt_template 
+ON prompt_templates(name) 
+WHERE is_active = 1;
+
+CREATE TRIGGER update_prompt_templates_updated_at 
+    AFTER UPDATE ON prompt_templates
+    BEGIN
+        UPDATE prompt_templates 
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.id;
+    END;
@@ -0,0 +1,21 @@
+-- Migration number: 0012    2026-10-19T18:39:51.000Z
+DROP TABLE IF EXISTS llm_usage;
+
+-- One row per LLM call (repair attempts included), with the token counts
+-- the provider reported and the cost at the prices in src/lib/llm/pricing.ts.
+-- Daily and monthly budgets are checked against the sum of cost_usd.
+CREATE TABLE llm_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    task TEXT NOT NULL,
+    route TEXT,
+    lead_id TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX idx_llm_usage_lead_id ON llm_usage(lead_id);
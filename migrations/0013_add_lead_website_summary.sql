@@ -0,0 +1,5 @@
+-- Migration number: 0013    2026-10-19T18:41:21.000Z
+
+-- Last concise_run summary of the lead's website (JSON), with the hash of the
+-- content it was generated from so unchanged sites aren't summarized again
+ALTER TABLE leads ADD COLUMN website_summary TEXT;
@@ -0,0 +1,9 @@
+-- Migration number: 0014    2026-10-19T19:05:47.000Z
+
+-- Per-stage enrichment status (JSON): state, reason, attempts, timestamps and
+-- the Apify run id. NULL means the stage hasn't run yet.
+ALTER TABLE leads ADD COLUMN profile_status TEXT;
+ALTER TABLE leads ADD COLUMN reels_status TEXT;
+ALTER TABLE leads ADD COLUMN website_status TEXT;
+ALTER TABLE leads ADD COLUMN ai_status TEXT;
+ALTER TABLE leads ADD COLUMN qualify_status TEXT;
@@ -0,0 +1,8 @@
+-- Migration number: 0015    2026-10-19T19:32:08.000Z
+
+-- Links a converted lead and the customer created from it, both ways
+ALTER TABLE customers ADD COLUMN lead_id TEXT;
+ALTER TABLE leads ADD COLUMN customer_id INTEGER;
+
+-- A lead converts into at most one customer
+CREATE UNIQUE INDEX idx_customers_lead_id ON customers(lead_id) WHERE lead_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Migration number: 0016    2026-10-19T20:14:36.000Z
+
+-- Contacts found in the bio and website (JSON array): emails, E.164 phone
+-- numbers, WhatsApp links, contact forms and social profiles, each with the
+-- page it came from
+ALTER TABLE leads ADD COLUMN contacts TEXT;
@@ -0,0 +1,8 @@
+-- Migration number: 0017    2026-10-19T21:02:44.000Z
+
+-- One lead per Instagram handle. Inserts that race past the application's
+-- duplicate check now fail instead of creating a second lead. Merge existing
+-- duplicates first (Leads → Find duplicates, or POST
+-- /api/leads/duplicates/merge), or creating the index fails.
+DROP INDEX IF EXISTS idx_leads_username;
+CREATE UNIQUE INDEX idx_leads_username ON leads(username);
@@ -0,0 +1,16 @@
+-- Migration number: 0018    2026-10-19T21:36:12.000Z
+DROP TABLE IF EXISTS discovery_slots;
+
+-- One row per lead a seed's discovery crawl may create, counting towards its
+-- maxPerSeed cap. Sibling crawls of the same seed reserve slots with a
+-- conditional insert, so together they can't go over the cap.
+CREATE TABLE discovery_slots (
+    seed_lead_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (seed_lead_id, username)
+);
+
+-- Leads already discovered into the D1 store count towards their seed's cap
+INSERT OR IGNORE INTO discovery_slots (seed_lead_id, username)
+SELECT seed_lead_id, username FROM leads WHERE seed_lead_id IS NOT NULL;
@@ -4,6 +4,9 @@ const links = [
   { href: "/admin", label: "Admin" },
   { href: "/admin/customers", label: "Customers" },
   { href: "/admin/subscriptions", label: "Subscriptions" },
+  { href: "/admin/leads", label: "Leads" },
+  { href: "/admin/prompts", label: "Prompts" },
+  { href: "/admin/llm-usage", label: "LLM Spend" },
 ];
 
 export function Header({ currentPath }: { currentPath: string }) {
@@ -0,0 +1,156 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { UserPlus } from "lucide-react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { convertLead } from "@/lib/api";
+import * as z from "zod";
+
+const formSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Invalid email address"),
+  // "" leaves the customer without a plan
+  subscriptionId: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export function ConvertLeadButton({
+  apiToken,
+  leadId,
+  defaults,
+  plans,
+}: {
+  apiToken: string;
+  leadId: string;
+  defaults: { name: string; email: string };
+  plans: { id: number; name: string }[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { ...defaults, subscriptionId: "" },
+  });
+
+  const onSubmit = async ({ subscriptionId, ...data }: FormValues) => {
+    try {
+      const url = new URL(window.location.href);
+      const response = await convertLead(leadId, url.origin, apiToken, {
+        ...data,
+        subscriptionId: subscriptionId ? Number(subscriptionId) : undefined,
+      });
+
+      if (!response.success) {
+        setError(response.message ?? "Failed to convert lead");
+        return;
+      }
+
+      window.location.href = `/admin/customers/${response.customerId}`;
+    } catch (error) {
+      console.error("Error converting lead:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Convert to Customer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Convert to Customer</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          Creates a customer from this lead's contact details and links the two.
+        </DialogDescription>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter customer name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="Enter customer email"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="subscriptionId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Plan</FormLabel>
+                  <FormControl>
+                    <select
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                      {...field}
+                    >
+                      <option value="">No plan</option>
+                      {plans.map((plan) => (
+                        <option key={plan.id} value={plan.id}>
+                          {plan.name}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button className="w-full" type="submit">
+              Convert
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus } from "lucide-react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { createPromptTemplate } from "@/lib/api";
+import * as z from "zod";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Pick a prompt"),
+  systemPrompt: z.string().min(1, "System prompt is required"),
+  userPrompt: z.string().min(1, "User prompt is required"),
+  notes: z.string().optional(),
+  activate: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// The active version of each prompt, and the {{variables}} its templates may use
+export type PromptDraft = {
+  systemPrompt: string;
+  userPrompt: string;
+  variables: string[];
+};
+
+export function CreatePromptVersionButton({
+  apiToken,
+  prompts,
+}: {
+  apiToken: string;
+  prompts: Record<string, PromptDraft>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [firstName] = Object.keys(prompts);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: firstName,
+      systemPrompt: prompts[firstName]?.systemPrompt ?? "",
+      userPrompt: prompts[firstName]?.userPrompt ?? "",
+      notes: "",
+      activate: true,
+    },
+  });
+
+  const selectedName = form.watch("name");
+
+  // Start each new version from the active one
+  const selectPrompt = (name: string) => {
+    form.setValue("name", name);
+    form.setValue("systemPrompt", prompts[name]?.systemPrompt ?? "");
+    form.setValue("userPrompt", prompts[name]?.userPrompt ?? "");
+  };
+
+  const onSubmit = async (data: FormValues) => {
+    try {
+      setError(null);
+      const url = new URL(window.location.href);
+      const response = await createPromptTemplate(url.origin, apiToken, data);
+      if (!response.success) {
+        setError(response.message || "Failed to create prompt version");
+        return;
+      }
+      form.reset();
+      setOpen(false);
+      window.location.reload();
+    } catch (error) {
+      console.error("Error creating prompt version:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          Create New Version
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>Create New Prompt Version</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          Available variables:{" "}
+          {(prompts[selectedName]?.variables ?? [])
+            .map((variable) => `{{${variable}}}`)
+            .join(", ")}
+        </DialogDescription>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prompt</FormLabel>
+                  <FormControl>
+                    <select
+                      className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                      value={field.value}
+                      onChange={(e) => selectPrompt(e.target.value)}
+                    >
+                      {Object.keys(prompts).map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="systemPrompt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>System Prompt</FormLabel>
+                  <FormControl>
+                    <Textarea rows={6} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="userPrompt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>User Prompt</FormLabel>
+                  <FormControl>
+                    <Textarea rows={8} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="What changed in this version"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="activate"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                    />
+                  </FormControl>
+                  <FormLabel>Make this the active version</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {error && (
+              <p className="text-sm font-medium text-destructive">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full">
+              Create Version
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
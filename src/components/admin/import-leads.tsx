@@ -0,0 +1,143 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import { importLeads } from "@/lib/api";
+import type { ImportReport } from "@/lib/leads/import";
+import { useState, type FormEvent } from "react";
+
+export function ImportLeadsButton({ apiToken }: { apiToken: string }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [enrich, setEnrich] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const url = new URL(window.location.href);
+      const response = await importLeads(url.origin, apiToken, file, enrich);
+
+      if (!response.success) {
+        setError(response.message ?? "Failed to import leads");
+        return;
+      }
+      setReport(response.report);
+    } catch (error) {
+      console.error("Error importing leads:", error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Show the new leads once the report has been read
+  const onOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next && report?.created) window.location.reload();
+  };
+
+  const problems = report?.rows.filter((row) => row.status !== "created") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Upload className="mr-2 h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Import Leads</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          One Instagram handle, @handle or profile URL per row. A column named
+          "username", "handle" or "url" is used if there is one, otherwise the
+          first column.
+        </DialogDescription>
+
+        {report ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {report.created} created, {report.duplicates} duplicate,{" "}
+              {report.invalid} invalid.
+            </p>
+            {problems.length > 0 && (
+              <div className="max-h-80 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Input</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {problems.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.input}</TableCell>
+                        <TableCell>{row.status}</TableCell>
+                        <TableCell>{row.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            />
+            <div className="flex items-center space-x-2">
+              <input
+                id="enrich"
+                type="checkbox"
+                checked={enrich}
+                onChange={(event) => setEnrich(event.target.checked)}
+              />
+              <Label htmlFor="enrich">Start enrichment for new leads</Label>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button
+              className="w-full"
+              type="submit"
+              disabled={!file || uploading}
+            >
+              {uploading ? "Importing..." : "Import"}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import type { ColumnDef } from "@tanstack/react-table";
+
+import { DataTable } from "@/components/admin/data-table";
+import type { Lead } from "@/lib/services/lead";
+
+import {
+  createColumnHelper,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+
+export const LEAD_ROW_COLUMNS = [
+  "id",
+  "username",
+  "raw_data",
+  "er_avg",
+  "has_website",
+  "openai",
+  "qualification_score",
+  "created_at",
+] as const;
+
+export type LeadRow = {
+  id: string;
+  username: string;
+  followersCount: number | null;
+  er_avg: number | null;
+  has_website: boolean | null;
+  niche: string | null;
+  qualification_score: number | null;
+  created_at: string;
+};
+
+// Keeps the scraped data out of the page; the table only needs a few fields
+export const toLeadRow = (
+  lead: Pick<Lead, (typeof LEAD_ROW_COLUMNS)[number]>,
+): LeadRow => ({
+  id: lead.id,
+  username: lead.username,
+  followersCount: lead.raw_data?.followersCount ?? null,
+  er_avg: lead.er_avg,
+  has_website: lead.has_website,
+  niche: lead.openai?.niche ?? null,
+  qualification_score: lead.qualification_score,
+  created_at: lead.created_at,
+});
+
+const columnHelper = createColumnHelper<LeadRow>();
+
+const columns: ColumnDef<LeadRow, any>[] = [
+  columnHelper.accessor("username", {
+    header: "Username",
+    cell: (info) => (
+      <a
+        className="text-primary underline"
+        href={`/admin/leads/${info.row.original.id}`}
+      >
+        {info.getValue() || "—"}
+      </a>
+    ),
+  }),
+  columnHelper.accessor("followersCount", {
+    header: "Followers",
+    cell: (info) => info.getValue()?.toLocaleString() ?? "—",
+  }),
+  columnHelper.accessor("er_avg", {
+    header: "ER Avg",
+    cell: (info) => (info.getValue() === null ? "—" : `${info.getValue()}%`),
+  }),
+  columnHelper.accessor("has_website", {
+    header: "Website",
+    cell: (info) =>
+      info.getValue() === null ? "—" : info.getValue() ? "Yes" : "No",
+  }),
+  columnHelper.accessor("niche", {
+    header: "Niche",
+    cell: (info) => info.getValue() || "—",
+  }),
+  columnHelper.accessor("qualification_score", {
+    header: "Score",
+    cell: (info) => info.getValue() ?? "—",
+  }),
+  columnHelper.accessor("created_at", {
+    header: "Created At",
+    cell: (info) => new Date(info.getValue()).toLocaleDateString(),
+  }),
+];
+
+interface DataTableProps {
+  data: LeadRow[];
+}
+
+export function LeadsTable({ data }: DataTableProps) {
+  const table = useReactTable({
+    data,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  return (
+    <div className="rounded-md border">
+      <DataTable table={table} />
+    </div>
+  );
+}
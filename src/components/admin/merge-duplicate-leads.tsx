@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { Merge } from "lucide-react";
+import { mergeDuplicateLeads } from "@/lib/api";
+import { useState } from "react";
+
+export function MergeDuplicateLeadsButton({
+  apiToken,
+  handle,
+}: {
+  apiToken: string;
+  handle: string;
+}) {
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const onClick = async () => {
+    setMerging(true);
+    try {
+      const url = new URL(window.location.href);
+      const response = await mergeDuplicateLeads(handle, url.origin, apiToken);
+
+      if (!response.success) {
+        setError(response.message ?? "Failed to merge leads");
+        setMerging(false);
+        return;
+      }
+
+      window.location.reload();
+    } catch (error) {
+      console.error("Error merging duplicate leads:", error);
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button variant="outline" size="sm" disabled={merging} onClick={onClick}>
+        <Merge className="mr-2 h-4 w-4" />
+        {merging ? "Merging" : "Merge"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import type { ColumnDef } from "@tanstack/react-table";
+
+import { DataTable } from "@/components/admin/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { activatePromptTemplate } from "@/lib/api";
+
+import {
+  createColumnHelper,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+
+export type PromptVersion = {
+  id: number;
+  name: string;
+  version: number;
+  variables: string[];
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+};
+
+const columnHelper = createColumnHelper<PromptVersion>();
+
+const activate = async (apiToken: string, id: number) => {
+  try {
+    const url = new URL(window.location.href);
+    const response = await activatePromptTemplate(id, url.origin, apiToken);
+    if (!response.success) {
+      throw new Error("Failed to activate prompt version");
+    }
+    window.location.reload();
+  } catch (error) {
+    console.error("Error activating prompt version:", error);
+  }
+};
+
+const buildColumns = (apiToken: string): ColumnDef<PromptVersion, any>[] => [
+  columnHelper.accessor("name", {
+    header: "Name",
+    cell: (info) => info.getValue(),
+  }),
+  columnHelper.accessor("version", {
+    header: "Version",
+    cell: (info) => `v${info.getValue()}`,
+  }),
+  columnHelper.accessor("notes", {
+    header: "Notes",
+    cell: (info) => info.getValue() || "—",
+  }),
+  columnHelper.accessor("variables", {
+    header: "Variables",
+    cell: (info) => info.getValue().join(", "),
+  }),
+  columnHelper.accessor("createdAt", {
+    header: "Created At",
+    cell: (info) => new Date(info.getValue()).toLocaleDateString(),
+  }),
+  columnHelper.accessor("isActive", {
+    header: "Status",
+    cell: (info) =>
+      info.getValue() ? (
+        <Badge>Active</Badge>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => activate(apiToken, info.row.original.id)}
+        >
+          Activate
+        </Button>
+      ),
+  }),
+];
+
+interface DataTableProps {
+  apiToken: string;
+  data: PromptVersion[];
+}
+
+export function PromptsTable({ apiToken, data }: DataTableProps) {
+  const table = useReactTable({
+    data,
+    columns: buildColumns(apiToken),
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  return (
+    <div className="rounded-md border">
+      <DataTable table={table} />
+    </div>
+  );
+}
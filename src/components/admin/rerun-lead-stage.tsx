@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { RotateCw } from "lucide-react";
+import { rerunLeadStage } from "@/lib/api";
+import { useState } from "react";
+
+export function RerunLeadStageButton({
+  apiToken,
+  leadId,
+  stage,
+}: {
+  apiToken: string;
+  leadId: string;
+  stage: string;
+}) {
+  const [started, setStarted] = useState(false);
+
+  const onClick = async () => {
+    try {
+      const url = new URL(window.location.href);
+      const response = await rerunLeadStage(
+        leadId,
+        stage,
+        url.origin,
+        apiToken,
+      );
+
+      if (!response.success) {
+        throw new Error(`Failed to rerun the ${stage} stage`);
+      }
+
+      // The stage runs in a workflow; reload to see its status change
+      setStarted(true);
+    } catch (error) {
+      console.error("Error rerunning lead stage:", error);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" disabled={started} onClick={onClick}>
+      <RotateCw className="mr-2 h-4 w-4" />
+      {started ? "Started" : "Rerun"}
+    </Button>
+  );
+}
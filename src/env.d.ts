@@ -3,6 +3,7 @@ type Runtime = import("@astrojs/cloudflare").Runtime<Env>;
 declare namespace App {
   interface Locals extends Runtime {
     CUSTOMER_WORKFLOW: Workflow;
+    LEAD_ENRICHMENT_WORKFLOW: Workflow;
     DB: D1Database;
   }
 }
@@ -345,6 +345,690 @@ const apiEndpoints: APIEndpoint[] = [
       },
     ],
   },
+  {
+    method: "GET",
+    path: "/api/leads",
+    description: "Retrieve a list of all leads, newest first",
+    parameters: [
+      {
+        name: "username",
+        type: "string",
+        required: false,
+        description: "Only leads whose username contains this text",
+      },
+      {
+        name: "tier",
+        type: "string",
+        required: false,
+        description: "Only leads with this qualification tier",
+      },
+      {
+        name: "minScore",
+        type: "number",
+        required: false,
+        description: "Only leads with at least this qualification score",
+      },
+      {
+        name: "hasWebsite",
+        type: "boolean",
+        required: false,
+        description: "Only leads with (true) or without (false) a website",
+      },
+      {
+        name: "seedLeadId",
+        type: "string",
+        required: false,
+        description: "Only leads discovered from this seed lead",
+      },
+      {
+        name: "converted",
+        type: "boolean",
+        required: false,
+        description:
+          "Only leads that were (true) or weren't (false) converted into customers",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          leads: [
+            {
+              id: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+              username: "examplebrand",
+              er_avg: 4.2,
+              has_reels: true,
+              has_website: true,
+              ai_analysis_complete: true,
+              qualification_score: 72,
+              qualification_tier: "B",
+            },
+          ],
+        },
+        description:
+          "Returns an array of lead objects; JSON columns such as raw_data and openai are returned parsed",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads",
+    description: "Create a new lead",
+    parameters: [
+      {
+        name: "username",
+        type: "string",
+        required: true,
+        description:
+          "Instagram username, @handle or profile URL; stored as the lowercased handle",
+      },
+    ],
+    requestBody: {
+      example: {
+        username: "examplebrand",
+      },
+    },
+    responses: [
+      {
+        name: "Success Response",
+        example: {
+          message: "Lead created successfully",
+          success: true,
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+        },
+      },
+      {
+        name: "Error Response",
+        example: {
+          message: "Missing/invalid username",
+          success: false,
+        },
+      },
+      {
+        name: "Duplicate Response",
+        example: {
+          message: "A lead with this username already exists",
+          success: false,
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+        },
+        description: "Returned with status code 409",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/leads/duplicates",
+    description:
+      "List groups of leads whose usernames share a canonical Instagram handle; the lead a merge keeps comes first",
+    responses: [
+      {
+        name: "Response",
+        example: {
+          duplicates: [
+            {
+              handle: "examplebrand",
+              leads: [
+                {
+                  id: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+                  username: "examplebrand",
+                  customer_id: null,
+                  created_at: "2026-10-01 09:30:00",
+                },
+                {
+                  id: "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d",
+                  username: "ExampleBrand",
+                  customer_id: null,
+                  created_at: "2026-10-12 14:05:00",
+                },
+              ],
+            },
+          ],
+        },
+        description:
+          "Each lead also carries its profile, reels, website, ai and qualify status",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/duplicates/merge",
+    description:
+      "Merge every lead sharing a handle into one, moving discovered leads, Apify runs, batch items, reels snapshots, LLM usage and customers onto it",
+    parameters: [
+      {
+        name: "handle",
+        type: "string",
+        required: true,
+        description:
+          "Canonical handle of a group from GET /api/leads/duplicates",
+      },
+    ],
+    requestBody: {
+      example: {
+        handle: "examplebrand",
+      },
+    },
+    responses: [
+      {
+        name: "Success Response",
+        example: {
+          message: "Leads merged successfully",
+          success: true,
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+          handle: "examplebrand",
+          removed: ["9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d"],
+        },
+      },
+      {
+        name: "Error Response",
+        example: {
+          message:
+            "These leads were converted into different customers; merge the customers first",
+          success: false,
+        },
+        description:
+          "Returned with status code 409; 404 when the handle has no duplicates",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/leads/export",
+    description:
+      "Download leads as CSV or JSONL, one flattened row per lead, newest first",
+    parameters: [
+      {
+        name: "format",
+        type: "string",
+        required: false,
+        description: "csv (default) or jsonl",
+      },
+      {
+        name: "columns",
+        type: "string",
+        required: false,
+        description:
+          "Comma-separated columns to include, e.g. username,followers,niche,price_min; defaults to all",
+      },
+      {
+        name: "username",
+        type: "string",
+        required: false,
+        description: "Only leads whose username contains this text",
+      },
+      {
+        name: "tier",
+        type: "string",
+        required: false,
+        description: "Only leads with this qualification tier",
+      },
+      {
+        name: "minScore",
+        type: "number",
+        required: false,
+        description: "Only leads with at least this qualification score",
+      },
+      {
+        name: "hasWebsite",
+        type: "boolean",
+        required: false,
+        description: "Only leads with (true) or without (false) a website",
+      },
+      {
+        name: "seedLeadId",
+        type: "string",
+        required: false,
+        description: "Only leads discovered from this seed lead",
+      },
+      {
+        name: "converted",
+        type: "boolean",
+        required: false,
+        description:
+          "Only leads that were (true) or weren't (false) converted into customers",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example:
+          "username,followers,er_avg,niche,price_min,price_max,qualification_score,website_status\r\nexamplebrand,25000,4.2,Skincare,19.99,49.99,72,succeeded\r\n",
+        description:
+          "Streamed as an attachment; JSONL returns one JSON object per line with the same columns",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/import",
+    description:
+      "Create pending leads from a CSV of Instagram handles, @handles or profile URLs, with a report on every row",
+    parameters: [
+      {
+        name: "enrich",
+        type: "boolean",
+        required: false,
+        description:
+          "Start batch enrichment for the created leads (a form field for uploads, a query parameter for text/csv bodies)",
+      },
+    ],
+    requestBody: {
+      example:
+        "username\n@examplebrand\nhttps://www.instagram.com/otherbrand/\n",
+      description:
+        "A multipart upload with the CSV in the file field, or the CSV itself as a text/csv body. Handles come from a column named username, handle or url, else the first column. At most 2000 rows, or 500 with enrich",
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          success: true,
+          rows: [
+            {
+              row: 2,
+              input: "@examplebrand",
+              status: "created",
+              username: "examplebrand",
+              leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+            },
+            {
+              row: 3,
+              input: "https://www.instagram.com/p/Cx1/",
+              status: "invalid",
+              reason: "Not an Instagram profile URL",
+            },
+          ],
+          created: 1,
+          duplicates: 0,
+          invalid: 1,
+          batchId: "8e1d2c3b-4a5f-4e6d-9c7b-1a2b3c4d5e6f",
+          mode: "queue",
+        },
+        description:
+          "Returned with status code 201 when leads were created; batchId and mode are only present with enrich",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/leads/:id",
+    description: "Retrieve a specific lead by ID",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "ID of the lead",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          lead: {
+            id: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+            username: "examplebrand",
+            qualification_score: 72,
+            qualification_tier: "B",
+            contacts: [
+              {
+                kind: "email",
+                value: "hello@examplebrand.com",
+                source: "biography",
+              },
+              {
+                kind: "phone",
+                value: "+14155552671",
+                source: "https://examplebrand.com/pages/contact",
+              },
+            ],
+          },
+        },
+      },
+    ],
+  },
+  {
+    method: "DELETE",
+    path: "/api/leads/:id",
+    description: "Delete a lead",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "ID of the lead",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          message: "Lead deleted successfully",
+          success: true,
+        },
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/:id/convert",
+    description:
+      "Create a customer from a lead's contact data, optionally with a plan, and link the two",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "ID of the lead",
+      },
+    ],
+    requestBody: {
+      example: {
+        email: "hello@examplebrand.com",
+        name: "Example Brand",
+        subscriptionId: 1,
+      },
+      description:
+        "All fields are optional. The email defaults to one found in the AI analysis' otherContact or the bio, and the name to the username",
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          message: "Lead converted successfully",
+          success: true,
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+          customerId: 12,
+          customerSubscriptionId: 7,
+          email: "hello@examplebrand.com",
+        },
+        description:
+          "Returned with status code 201; 409 when the lead was already converted, 422 when no email was found",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/:id/discover",
+    description:
+      "Scrape a seed lead's profile and create pending leads from its related profiles",
+    parameters: [
+      {
+        name: "depth",
+        type: "number",
+        required: false,
+        description:
+          "Levels of related profiles to follow (default 1, at most 3)",
+      },
+      {
+        name: "maxPerSeed",
+        type: "number",
+        required: false,
+        description:
+          "Most leads to discover from this seed across all levels (default 10, at most 100)",
+      },
+    ],
+    requestBody: {
+      example: {
+        depth: 2,
+        maxPerSeed: 25,
+      },
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          success: true,
+          instanceId: "1b7f4c2e-3d5a-4e6f-8a9b-0c1d2e3f4a5b",
+          depth: 2,
+          maxPerSeed: 25,
+        },
+        description:
+          "Returned with status code 202; poll GET /api/enrich_run?instanceId=... for output.discovery",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/leads/:id/reels_snapshots",
+    description:
+      "Retrieve every reels scrape of a lead, oldest first, to chart engagement over time",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "ID of the lead",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          snapshots: [
+            {
+              id: 1,
+              lead_id: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+              username: "examplebrand",
+              er_avg: 4.2,
+              metrics: {
+                sampleSize: 12,
+                medianViews: 3000,
+                p90Views: 12000,
+                erFollowers: 1.8,
+                followersCount: 25000,
+                postsPerWeek: 2.5,
+                avgDaysBetweenPosts: 2.8,
+                medianViewsPerDay: 410,
+              },
+              reels: [],
+              taken_at: "2026-10-19 13:40:00",
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/:id/rerun",
+    description:
+      "Run one enrichment stage of a lead again, bypassing the profile cache and any stored AI analysis",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "ID of the lead",
+      },
+    ],
+    requestBody: {
+      example: {
+        stage: "website",
+      },
+      description: "One of profile, reels, website, ai or qualify",
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          success: true,
+          instanceId: "1b7f4c2e-3d5a-4e6f-8a9b-0c1d2e3f4a5b",
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+          stage: "website",
+        },
+        description:
+          "Returned with status code 202; the stage's status on the lead shows its progress",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/leads/batch",
+    description:
+      "Create a lead for each username and queue profile, reels, website and AI enrichment for all of them",
+    parameters: [
+      {
+        name: "usernames",
+        type: "string[]",
+        required: true,
+        description:
+          "Instagram usernames to enrich (at most 500 per batch); usernames that are already leads enrich the existing lead",
+      },
+    ],
+    requestBody: {
+      example: {
+        usernames: ["examplebrand", "anotherbrand"],
+      },
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          success: true,
+          batchId: "8c2d1e0f-4b3a-4f5e-9d8c-7b6a5f4e3d2c",
+          total: 2,
+          existing: 1,
+          mode: "queue",
+        },
+        description: "Returned with status code 202",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/leads/batch/:id",
+    description: "Check the progress of a lead batch",
+    parameters: [
+      {
+        name: "id",
+        type: "string",
+        required: true,
+        description: "Batch ID returned when the batch was created",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          batch: {
+            batchId: "8c2d1e0f-4b3a-4f5e-9d8c-7b6a5f4e3d2c",
+            total: 2,
+            pending: 0,
+            running: 1,
+            done: 1,
+            failed: 0,
+            stages: {
+              profile: { succeeded: 1, skipped: 0, failed: 0 },
+              reels: { succeeded: 1, skipped: 0, failed: 0 },
+              website: { succeeded: 0, skipped: 1, failed: 0 },
+              ai: { succeeded: 1, skipped: 0, failed: 0 },
+            },
+            createdAt: "2026-10-19 11:30:00",
+          },
+        },
+        description: "Counts of leads by status, and of each stage's outcomes",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/media/:key",
+    description:
+      "Download a profile picture or reel thumbnail stored by the enrichment chain",
+    parameters: [
+      {
+        name: "key",
+        type: "string",
+        required: true,
+        description:
+          "Media key recorded on the lead (profile_picture_key or a reel's thumbnailKey)",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: null,
+        description: "The image bytes, with their stored content type",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/prompts",
+    description:
+      "List every version of the LLM prompt templates, newest first per prompt",
+    responses: [
+      {
+        name: "Response",
+        example: {
+          prompts: [
+            {
+              id: 3,
+              name: "lead-analysis",
+              version: 2,
+              systemPrompt: "You are a lead qualification expert...",
+              userPrompt: "Profile: {{profile}} (bio: {{biography}}, ...",
+              variables: ["profile", "biography", "followers"],
+              notes: "Shorter summaries",
+              isActive: true,
+              createdAt: "2026-10-19 14:02:11",
+            },
+          ],
+        },
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/prompts",
+    description:
+      "Create the next version of a prompt (lead-analysis or website-summary)",
+    requestBody: {
+      example: {
+        name: "lead-analysis",
+        systemPrompt: "You are a lead qualification expert...",
+        userPrompt: "Profile: {{profile}} (bio: {{biography}}, ...",
+        notes: "Shorter summaries",
+        activate: true,
+      },
+      description:
+        "Templates may only use the {{variables}} the prompt's caller supplies",
+    },
+    responses: [
+      {
+        name: "Response",
+        example: {
+          message: "Prompt version created successfully",
+          success: true,
+          prompt: { id: 3, name: "lead-analysis", version: 2, isActive: true },
+        },
+        description: "Returned with status code 201",
+      },
+    ],
+  },
+  {
+    method: "POST",
+    path: "/api/prompts/:id/activate",
+    description: "Make a prompt version the active one for its prompt",
+    parameters: [
+      {
+        name: "id",
+        type: "number",
+        required: true,
+        description: "ID of the prompt version",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          message: "lead-analysis v2 is now active",
+          success: true,
+        },
+      },
+    ],
+  },
   {
     method: "POST",
     path: "/api/customer/[:id]/workflow",
@@ -365,6 +1049,83 @@ const apiEndpoints: APIEndpoint[] = [
       },
     ],
   },
+  {
+    method: "POST",
+    path: "/api/enrich_run",
+    description:
+      "Start the lead enrichment workflow (profile, reels, website and AI analysis) for a lead",
+    parameters: [
+      {
+        name: "username",
+        type: "string",
+        required: true,
+        description: "Instagram username of the lead",
+      },
+      {
+        name: "leadId",
+        type: "string",
+        required: true,
+        description: "ID of the lead to store enrichment results on",
+      },
+      {
+        name: "force",
+        type: "boolean",
+        required: false,
+        description:
+          "Scrape the profile again even if the profile cache has a fresh copy",
+      },
+    ],
+    requestBody: {
+      example: {
+        username: "examplebrand",
+        leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+      },
+    },
+    responses: [
+      {
+        name: "Success Response",
+        example: {
+          success: true,
+          instanceId: "1b7f4c2e-3d5a-4e6f-8a9b-0c1d2e3f4a5b",
+          leadId: "5f0c3a4e-8d1b-4c7a-9e2f-1a2b3c4d5e6f",
+        },
+        description: "Returned with status code 202",
+      },
+    ],
+  },
+  {
+    method: "GET",
+    path: "/api/enrich_run?instanceId=:instanceId",
+    description: "Check the progress of a lead enrichment workflow",
+    parameters: [
+      {
+        name: "instanceId",
+        type: "string",
+        required: true,
+        description: "Workflow instance ID returned when the run was started",
+      },
+    ],
+    responses: [
+      {
+        name: "Response",
+        example: {
+          instanceId: "1b7f4c2e-3d5a-4e6f-8a9b-0c1d2e3f4a5b",
+          status: "complete",
+          output: {
+            profile: { success: true, data: { username: "examplebrand" } },
+            reels: { success: true, data: { reels: [], er_avg: 4.2 } },
+            website: {
+              success: false,
+              error: "No externalUrl—website skipped",
+            },
+            ai: { success: true, data: { niche: "eco-friendly apparel" } },
+          },
+        },
+        description:
+          "Returns the workflow status and, once complete, each stage's result",
+      },
+    ],
+  },
 ];
 
 export { apiEndpoints };
@@ -1,4 +1,4 @@
-const safeCompare = async (a, b) => {
+export const safeCompare = async (a, b) => {
   if (typeof a !== "string" || typeof b !== "string") return false;
   const encoder = new TextEncoder();
   const aEncoded = encoder.encode(a);
@@ -225,3 +225,176 @@ export const runCustomerWorkflow = async (id, baseUrl, apiToken) => {
     };
   }
 };
+
+export const createPromptTemplate = async (
+  baseUrl: string,
+  apiToken: string,
+  prompt: Record<string, unknown>,
+) => {
+  const response = await fetch(baseUrl + "/api/prompts", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(prompt),
+  });
+  const data: any = await response.json();
+  if (response.ok) {
+    return {
+      prompt: data.prompt,
+      success: true,
+    };
+  } else {
+    console.error("Failed to create prompt version");
+    return {
+      prompt: null,
+      message: data.message,
+      success: false,
+    };
+  }
+};
+
+export const activatePromptTemplate = async (
+  id: number,
+  baseUrl: string,
+  apiToken: string,
+) => {
+  const response = await fetch(baseUrl + `/api/prompts/${id}/activate`, {
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+    },
+    method: "POST",
+  });
+  if (response.ok) {
+    return {
+      success: true,
+    };
+  } else {
+    console.error("Failed to activate prompt version");
+    return {
+      success: false,
+    };
+  }
+};
+
+export const rerunLeadStage = async (
+  id: string,
+  stage: string,
+  baseUrl: string,
+  apiToken: string,
+) => {
+  const response = await fetch(baseUrl + `/api/leads/${id}/rerun`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ stage }),
+  });
+  if (response.ok) {
+    const data: any = await response.json();
+    return {
+      instanceId: data.instanceId as string,
+      success: true,
+    };
+  } else {
+    console.error("Failed to rerun lead stage");
+    return {
+      instanceId: null,
+      success: false,
+    };
+  }
+};
+
+export const convertLead = async (
+  id: string,
+  baseUrl: string,
+  apiToken: string,
+  conversion: { email?: string; name?: string; subscriptionId?: number },
+) => {
+  const response = await fetch(baseUrl + `/api/leads/${id}/convert`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(conversion),
+  });
+  const data: any = await response.json();
+  if (response.ok) {
+    return {
+      customerId: data.customerId as number,
+      success: true,
+    };
+  } else {
+    console.error("Failed to convert lead");
+    return {
+      customerId: null,
+      message: data.message,
+      success: false,
+    };
+  }
+};
+
+export const importLeads = async (
+  baseUrl: string,
+  apiToken: string,
+  file: File,
+  enrich: boolean,
+) => {
+  const form = new FormData();
+  form.append("file", file);
+  form.append("enrich", String(enrich));
+
+  const response = await fetch(baseUrl + "/api/leads/import", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+    },
+    body: form,
+  });
+  const data: any = await response.json();
+  if (response.ok) {
+    return {
+      report: data,
+      success: true,
+    };
+  } else {
+    console.error("Failed to import leads");
+    return {
+      report: null,
+      message: data.message,
+      success: false,
+    };
+  }
+};
+
+export const mergeDuplicateLeads = async (
+  handle: string,
+  baseUrl: string,
+  apiToken: string,
+) => {
+  const response = await fetch(baseUrl + "/api/leads/duplicates/merge", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ handle }),
+  });
+  const data: any = await response.json();
+  if (response.ok) {
+    return {
+      leadId: data.leadId as string,
+      success: true,
+    };
+  } else {
+    console.error("Failed to merge duplicate leads");
+    return {
+      leadId: null,
+      message: data.message,
+      success: false,
+    };
+  }
+};
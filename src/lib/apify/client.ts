@@ -0,0 +1,217 @@
+import {
+  ApifyActorFailedError,
+  ApifyError,
+  ApifyQuotaError,
+  ApifyTimeoutError,
+} from "@/lib/apify/errors";
+import type {
+  ActorId,
+  ActorInputs,
+  ActorRun,
+  DatasetOptions,
+  PollingOptions,
+  RunStatus,
+  StartRunOptions,
+} from "@/lib/apify/types";
+
+export const APIFY_API_URL = "https://api.apify.com/v2";
+
+export const DEFAULT_POLLING: PollingOptions = {
+  initialIntervalMs: 5_000,
+  backoffFactor: 1.5,
+  maxIntervalMs: 30_000,
+  deadlineMs: 5 * 60_000,
+};
+
+const DEFAULT_PAGE_SIZE = 250;
+
+// Statuses Apify reports while a run can still change
+const ACTIVE_RUN_STATUSES: RunStatus[] = [
+  "READY",
+  "RUNNING",
+  "TIMING-OUT",
+  "ABORTING",
+];
+
+// Apify's error types for credit, memory and rate limits
+const QUOTA_ERROR_TYPES = [
+  "not-enough-usage-to-run-paid-actor",
+  "actor-memory-limit-exceeded",
+  "rate-limit-exceeded",
+  "monthly-usage-hard-limit-exceeded",
+];
+
+export const isRunActive = (status: RunStatus) =>
+  ACTIVE_RUN_STATUSES.includes(status);
+
+const toActorRun = (data: any): ActorRun => ({
+  id: data.id,
+  actId: data.actId,
+  status: data.status,
+  statusMessage: data.statusMessage ?? null,
+  defaultDatasetId: data.defaultDatasetId,
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type ApifyClientOptions = {
+  token: string;
+  // Point this at a local fake of the Apify API for offline development
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  polling?: Partial<PollingOptions>;
+};
+
+export class ApifyClient {
+  private token: string;
+  private baseUrl: string;
+  private fetch: typeof fetch;
+  polling: PollingOptions;
+
+  constructor({
+    token,
+    baseUrl,
+    fetch: fetchImpl,
+    polling,
+  }: ApifyClientOptions) {
+    this.token = token;
+    this.baseUrl = (baseUrl || APIFY_API_URL).replace(/\/$/, "");
+    this.fetch = fetchImpl || fetch.bind(globalThis);
+    this.polling = { ...DEFAULT_POLLING, ...polling };
+  }
+
+  private async request(path: string, init: RequestInit = {}) {
+    const headers = new Headers(init.headers);
+    headers.set("Authorization", `Bearer ${this.token}`);
+
+    let response: Response;
+    try {
+      response = await this.fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers,
+      });
+    } catch (err: any) {
+      throw new ApifyError(`Apify request failed: ${err.message}`);
+    }
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      const type = errorData.error?.type;
+      const message =
+        errorData.error?.message || `Apify request failed: ${response.status}`;
+
+      if (
+        response.status === 402 ||
+        response.status === 429 ||
+        QUOTA_ERROR_TYPES.includes(type)
+      ) {
+        throw new ApifyQuotaError(message, { status: response.status, type });
+      }
+      throw new ApifyError(message, { status: response.status, type });
+    }
+
+    return response;
+  }
+
+  async startRun<A extends ActorId>(
+    actorId: A,
+    input: ActorInputs[A],
+    { webhooks }: StartRunOptions = {},
+  ): Promise<ActorRun> {
+    const query = webhooks?.length
+      ? `?webhooks=${encodeURIComponent(btoa(JSON.stringify(webhooks)))}`
+      : "";
+    const response = await this.request(`/acts/${actorId}/runs${query}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    const { data } = await response.json<{ data: unknown }>();
+    return toActorRun(data);
+  }
+
+  async getRun(runId: string): Promise<ActorRun> {
+    const response = await this.request(`/actor-runs/${runId}`);
+    const { data } = await response.json<{ data: unknown }>();
+    return toActorRun(data);
+  }
+
+  /**
+   * Delay before the given status check (1-based), following the configured
+   * backoff. Also used by workflows that sleep between checks themselves.
+   */
+  pollInterval(attempt: number) {
+    const { initialIntervalMs, backoffFactor, maxIntervalMs } = this.polling;
+    return Math.min(
+      initialIntervalMs * backoffFactor ** (attempt - 1),
+      maxIntervalMs,
+    );
+  }
+
+  // Throws unless the finished run succeeded
+  ensureSucceeded(run: ActorRun) {
+    if (isRunActive(run.status)) {
+      throw new ApifyTimeoutError(run.id, this.polling.deadlineMs);
+    }
+    if (run.status !== "SUCCEEDED") {
+      throw new ApifyActorFailedError(run.id, run.status, run.statusMessage);
+    }
+    return run;
+  }
+
+  async waitForRun(runId: string): Promise<ActorRun> {
+    const deadline = Date.now() + this.polling.deadlineMs;
+
+    for (let attempt = 1; ; attempt++) {
+      const delay = this.pollInterval(attempt);
+      if (Date.now() + delay > deadline) {
+        throw new ApifyTimeoutError(runId, this.polling.deadlineMs);
+      }
+      await sleep(delay);
+
+      const run = await this.getRun(runId);
+      if (!isRunActive(run.status)) {
+        return this.ensureSucceeded(run);
+      }
+    }
+  }
+
+  async listDatasetItems<T = any>(
+    datasetId: string,
+    { pageSize = DEFAULT_PAGE_SIZE, maxItems = Infinity }: DatasetOptions = {},
+  ): Promise<T[]> {
+    if (!datasetId) {
+      throw new ApifyError("No defaultDatasetId in run response");
+    }
+
+    const items: T[] = [];
+    while (items.length < maxItems) {
+      const limit = Math.min(pageSize, maxItems - items.length);
+      const response = await this.request(
+        `/datasets/${datasetId}/items?clean=true&offset=${items.length}&limit=${limit}`,
+      );
+      const page = (await response.json<T[]>()) || [];
+      items.push(...page);
+
+      const total = Number(response.headers.get("X-Apify-Pagination-Total"));
+      if (page.length < limit || (total && items.length >= total)) break;
+    }
+
+    return items;
+  }
+
+  // Start → wait → fetch in one go, for callers that can hold the request open
+  async run<A extends ActorId, T = any>(
+    actorId: A,
+    input: ActorInputs[A],
+    datasetOptions?: DatasetOptions,
+  ): Promise<{ run: ActorRun; items: T[] }> {
+    const started = await this.startRun(actorId, input);
+    const run = await this.waitForRun(started.id);
+    const items = await this.listDatasetItems<T>(
+      run.defaultDatasetId,
+      datasetOptions,
+    );
+    return { run, items };
+  }
+}
@@ -0,0 +1,62 @@
+export class ApifyError extends Error {
+  status?: number;
+  type?: string;
+
+  constructor(
+    message: string,
+    options: { status?: number; type?: string } = {},
+  ) {
+    super(message);
+    this.name = "ApifyError";
+    this.status = options.status;
+    this.type = options.type;
+  }
+}
+
+// Account credits, memory or rate limits were hit; retrying right away won't help
+export class ApifyQuotaError extends ApifyError {
+  constructor(
+    message: string,
+    options: { status?: number; type?: string } = {},
+  ) {
+    super(message, options);
+    this.name = "ApifyQuotaError";
+  }
+}
+
+// The run didn't finish before the polling deadline; it may still be running on Apify
+export class ApifyTimeoutError extends ApifyError {
+  runId: string;
+
+  constructor(runId: string, deadlineMs: number) {
+    super(
+      `Run ${runId} did not finish within ${Math.round(deadlineMs / 1000)}s`,
+    );
+    this.name = "ApifyTimeoutError";
+    this.runId = runId;
+  }
+}
+
+// The run finished, but not successfully (FAILED, TIMED-OUT or ABORTED)
+export class ApifyActorFailedError extends ApifyError {
+  runId: string;
+  runStatus: string;
+
+  constructor(runId: string, runStatus: string, statusMessage?: string | null) {
+    super(
+      `Run failed with status: ${runStatus}${statusMessage ? ` (${statusMessage})` : ""}`,
+    );
+    this.name = "ApifyActorFailedError";
+    this.runId = runId;
+    this.runStatus = runStatus;
+  }
+}
+
+// Maps client errors onto the status code a route should respond with
+export const apifyErrorStatus = (error: unknown) => {
+  if (error instanceof ApifyQuotaError) return 429;
+  if (error instanceof ApifyTimeoutError) return 504;
+  if (error instanceof ApifyActorFailedError) return 502;
+  if (error instanceof ApifyError) return 502;
+  return 500;
+};
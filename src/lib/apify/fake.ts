@@ -0,0 +1,166 @@
+import { ApifyClient, type ApifyClientOptions } from "@/lib/apify/client";
+import { ApifyError } from "@/lib/apify/errors";
+import {
+  ACTORS,
+  type ActorId,
+  type ActorInputs,
+  type ActorRun,
+  type DatasetOptions,
+  type InstagramProfileScraperInput,
+  type InstagramScraperInput,
+  type WebsiteContentCrawlerInput,
+} from "@/lib/apify/types";
+
+// What a fake dataset is generated from; encoded into the run and dataset ids
+type FakeRequest =
+  | { kind: "profile"; username: string }
+  | { kind: "reels"; username: string; limit: number }
+  | { kind: "website"; url: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reel timestamps count back from here, so the items never change
+const FAKE_NOW = Date.UTC(2026, 0, 1);
+
+// base64url, so the ids are safe in URL paths like real ones
+const encodeRequest = (request: FakeRequest) =>
+  `fake-${btoa(JSON.stringify(request))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")}`;
+
+const decodeRequest = (id: string): FakeRequest => {
+  try {
+    const encoded = id.replace(/^fake-/, "");
+    return JSON.parse(atob(encoded.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    throw new ApifyError(`Unknown fake run or dataset: ${id}`, { status: 404 });
+  }
+};
+
+// Small stable number per string, for follower and view counts
+const hashOf = (text: string) =>
+  [...text].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+const toRequest = <A extends ActorId>(
+  actorId: A,
+  input: ActorInputs[A],
+): FakeRequest => {
+  switch (actorId) {
+    case ACTORS.instagramProfileScraper: {
+      const { usernames } = input as InstagramProfileScraperInput;
+      return { kind: "profile", username: usernames[0] };
+    }
+    case ACTORS.instagramScraper: {
+      const { directUrls, resultsLimit } = input as InstagramScraperInput;
+      const username = new URL(directUrls[0]).pathname.split("/")[1];
+      return { kind: "reels", username, limit: resultsLimit };
+    }
+    default: {
+      const { startUrls } = input as WebsiteContentCrawlerInput;
+      return { kind: "website", url: startUrls[0].url };
+    }
+  }
+};
+
+// Items in the shape each actor's dataset has
+const fakeItems = (request: FakeRequest): any[] => {
+  switch (request.kind) {
+    case "profile": {
+      const { username } = request;
+      const hash = hashOf(username);
+      return [
+        {
+          username,
+          followersCount: 1_000 + (hash % 99_000),
+          isPrivate: false,
+          isVerified: hash % 10 === 0,
+          biography: `Offline profile for @${username}. Orders: hello@${username.replace(/[._]/g, "")}.shop`,
+          externalUrl: `https://${username.replace(/[._]/g, "-")}.example/`,
+          relatedProfiles: [1, 2, 3].map((i) => ({
+            username: `${username.slice(0, 25)}_rel${i}`,
+          })),
+        },
+      ];
+    }
+    case "reels": {
+      const { username, limit } = request;
+      return Array.from({ length: limit }, (_, i) => {
+        const views = 500 + (hashOf(`${username}:${i}`) % 20_000);
+        return {
+          id: `${username}-reel-${i + 1}`,
+          url: `https://www.instagram.com/reel/${username}-${i + 1}/`,
+          videoPlayCount: views,
+          likesCount: Math.round(views * 0.06),
+          commentsCount: Math.round(views * 0.004),
+          timestamp: new Date(FAKE_NOW - (i + 1) * 3 * DAY_MS).toISOString(),
+        };
+      });
+    }
+    case "website": {
+      const { url } = request;
+      return [
+        {
+          url,
+          crawl: { loadedUrl: url, depth: 0 },
+          metadata: { title: "Offline store", description: "Fake crawl" },
+          text: "Classic tee $25.00\nHoodie Regular price $60.00 Sale price $45.00",
+        },
+        {
+          url: `${url}pages/contact`,
+          crawl: { loadedUrl: `${url}pages/contact`, depth: 1 },
+          metadata: { title: "Contact", description: "" },
+          text: "Write to us at support@offline-store.shop",
+        },
+      ];
+    }
+  }
+};
+
+/**
+ * Deterministic stand-in for offline development: runs succeed at once and
+ * their datasets are generated from the actor input, so the same input
+ * always gets the same items. Nothing is stored, since the ids carry the
+ * input, and any client instance can read any run.
+ */
+export class FakeApifyClient extends ApifyClient {
+  constructor(options: Omit<ApifyClientOptions, "token"> = {}) {
+    super({ ...options, token: "fake" });
+  }
+
+  async startRun<A extends ActorId>(
+    actorId: A,
+    input: ActorInputs[A],
+  ): Promise<ActorRun> {
+    const id = encodeRequest(toRequest(actorId, input));
+    return {
+      id,
+      actId: actorId,
+      status: "SUCCEEDED",
+      statusMessage: null,
+      defaultDatasetId: id,
+    };
+  }
+
+  async getRun(runId: string): Promise<ActorRun> {
+    decodeRequest(runId);
+    return {
+      id: runId,
+      actId: "fake",
+      status: "SUCCEEDED",
+      statusMessage: null,
+      defaultDatasetId: runId,
+    };
+  }
+
+  async waitForRun(runId: string): Promise<ActorRun> {
+    return this.getRun(runId);
+  }
+
+  async listDatasetItems<T = any>(
+    datasetId: string,
+    { maxItems = Infinity }: DatasetOptions = {},
+  ): Promise<T[]> {
+    return fakeItems(decodeRequest(datasetId)).slice(0, maxItems);
+  }
+}
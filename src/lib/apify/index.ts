@@ -0,0 +1,20 @@
+import { ApifyClient, type ApifyClientOptions } from "@/lib/apify/client";
+import { FakeApifyClient } from "@/lib/apify/fake";
+
+export * from "@/lib/apify/client";
+export * from "@/lib/apify/errors";
+export * from "@/lib/apify/fake";
+export * from "@/lib/apify/types";
+
+// APIFY_MODE=fake swaps in FakeApifyClient, so the enrichment chain runs offline
+export const createApifyClient = (
+  env: Env,
+  options: Omit<ApifyClientOptions, "token"> = {},
+) =>
+  env.APIFY_MODE === "fake"
+    ? new FakeApifyClient(options)
+    : new ApifyClient({
+        token: env.APIFY_TOKEN,
+        baseUrl: env.APIFY_BASE_URL,
+        ...options,
+      });
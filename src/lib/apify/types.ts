@@ -0,0 +1,108 @@
+export const ACTORS = {
+  instagramProfileScraper: "dSCLg0C3YEZ83HzYX",
+  instagramScraper: "apify~instagram-scraper",
+  websiteContentCrawler: "apify~website-content-crawler",
+} as const;
+
+export type ActorId = (typeof ACTORS)[keyof typeof ACTORS];
+
+export type ProxyConfiguration = {
+  useApifyProxy: boolean;
+  apifyProxyGroups?: string[];
+};
+
+export type InstagramProfileScraperInput = {
+  usernames: string[];
+  proxy?: ProxyConfiguration;
+};
+
+export type InstagramScraperInput = {
+  directUrls: string[];
+  resultsLimit: number;
+  resultsType: "posts" | "comments" | "details" | "mentions" | "reels";
+  isUserReelFeedURL?: boolean;
+  searchType?: "user" | "hashtag" | "place";
+  proxy?: ProxyConfiguration;
+};
+
+export type WebsiteContentCrawlerInput = {
+  startUrls: { url: string }[];
+  proxy?: ProxyConfiguration;
+  maxCrawlPages?: number;
+  maxCrawlDepth?: number;
+  saveMarkdown?: boolean;
+  saveHtml?: boolean;
+  saveScreenshots?: boolean;
+  blockMedia?: boolean;
+  removeElementsCssSelector?: string;
+  htmlTransformer?: "readableText" | "extractus" | "none";
+};
+
+export type ActorInputs = {
+  [ACTORS.instagramProfileScraper]: InstagramProfileScraperInput;
+  [ACTORS.instagramScraper]: InstagramScraperInput;
+  [ACTORS.websiteContentCrawler]: WebsiteContentCrawlerInput;
+};
+
+export type RunStatus =
+  | "READY"
+  | "RUNNING"
+  | "SUCCEEDED"
+  | "FAILED"
+  | "TIMING-OUT"
+  | "TIMED-OUT"
+  | "ABORTING"
+  | "ABORTED";
+
+export type ActorRun = {
+  id: string;
+  actId: string;
+  status: RunStatus;
+  statusMessage: string | null;
+  defaultDatasetId: string;
+};
+
+export type WebhookEventType =
+  | "ACTOR.RUN.CREATED"
+  | "ACTOR.RUN.SUCCEEDED"
+  | "ACTOR.RUN.FAILED"
+  | "ACTOR.RUN.TIMED_OUT"
+  | "ACTOR.RUN.ABORTED"
+  | "ACTOR.RUN.RESURRECTED";
+
+// Ad-hoc webhook registered together with a single run
+export type WebhookDefinition = {
+  eventTypes: WebhookEventType[];
+  requestUrl: string;
+  headersTemplate?: string;
+  payloadTemplate?: string;
+};
+
+// Apify's default webhook payload
+export type WebhookPayload = {
+  userId: string;
+  createdAt: string;
+  eventType: WebhookEventType;
+  eventData: { actorId: string; actorRunId: string };
+  resource: any;
+};
+
+export type StartRunOptions = {
+  webhooks?: WebhookDefinition[];
+};
+
+export type PollingOptions = {
+  // Delay before the first status check
+  initialIntervalMs: number;
+  // Each following delay is multiplied by this, up to maxIntervalMs
+  backoffFactor: number;
+  maxIntervalMs: number;
+  // Total time to wait for a run before giving up with ApifyTimeoutError
+  deadlineMs: number;
+};
+
+export type DatasetOptions = {
+  pageSize?: number;
+  // Stop paginating once this many items have been collected
+  maxItems?: number;
+};
@@ -0,0 +1,150 @@
+import {
+  BATCH_STAGES,
+  type LeadBatchMessage,
+  type StageOutcomes,
+} from "@/lib/batch/types";
+import type { EnrichmentStage } from "@/lib/enrichment/types";
+import {
+  createLeadRepository,
+  stageStatusColumn,
+  stageStatusOf,
+} from "@/lib/leads";
+import { LeadBatchService } from "@/lib/services/lead_batch";
+
+// Leads of one batch enriched at once; each holds Apify runs open while it waits
+export const BATCH_CONCURRENCY = 3;
+
+// Deliveries of a message before it's given up on: max_retries in wrangler.json, plus one
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+// Workflows accept at most 100 instances per createBatch call
+const CREATE_BATCH_LIMIT = 100;
+
+// One instance per batch item; createBatch skips IDs that already exist, so a
+// redelivered message can't enrich the same lead twice
+export const batchWorkflowId = (itemId: string) => `batch-${itemId}`;
+
+const createLeadWorkflows = async (env: Env, messages: LeadBatchMessage[]) => {
+  const instanceIds: string[] = [];
+  for (let i = 0; i < messages.length; i += CREATE_BATCH_LIMIT) {
+    const instances = await env.LEAD_ENRICHMENT_WORKFLOW.createBatch(
+      messages
+        .slice(i, i + CREATE_BATCH_LIMIT)
+        .map(({ itemId, username, leadId }) => ({
+          id: batchWorkflowId(itemId),
+          params: {
+            username,
+            leadId,
+            stages: BATCH_STAGES,
+            batchItemId: itemId,
+          },
+        })),
+    );
+    instanceIds.push(...instances.map((instance) => instance.id));
+  }
+  return instanceIds;
+};
+
+/**
+ * Starts a LeadEnrichmentWorkflow instance per message while its batch has
+ * fewer than BATCH_CONCURRENCY running. The rest stay pending until a running
+ * item finishes and starts the next one (see startNextBatchItem). Each
+ * instance runs the batch stages and records the item's outcome.
+ */
+export async function startLeadWorkflows(
+  env: Env,
+  messages: LeadBatchMessage[],
+) {
+  const batches = new LeadBatchService(env.DB);
+  const claimed: LeadBatchMessage[] = [];
+  for (const message of messages) {
+    if (await batches.claimItem(message.itemId, BATCH_CONCURRENCY)) {
+      claimed.push(message);
+    }
+  }
+  return createLeadWorkflows(env, claimed);
+}
+
+/**
+ * Starts the oldest pending item of the batch itemId belongs to, once itemId
+ * has finished and freed its slot. If the instance can't be created the item
+ * goes back to pending, so a retry claims it again.
+ */
+export async function startNextBatchItem(env: Env, itemId: string) {
+  const batches = new LeadBatchService(env.DB);
+  const next = await batches.claimNextItem(itemId, BATCH_CONCURRENCY);
+  if (!next) return null;
+
+  try {
+    const [instanceId] = await createLeadWorkflows(env, [next]);
+    return instanceId;
+  } catch (err) {
+    await batches.releaseItem(next.itemId);
+    throw err;
+  }
+}
+
+/**
+ * Records how a batch item ended, with the outcome the lead's stage statuses
+ * show for each batch stage the chain reached.
+ */
+export async function finishBatchItem(
+  env: Env,
+  { itemId, leadId }: { itemId: string; leadId?: string },
+  reached: readonly EnrichmentStage[],
+  error: string | null = null,
+) {
+  const stages: StageOutcomes = {};
+  const batchStages = BATCH_STAGES.filter((stage) => reached.includes(stage));
+  if (leadId && batchStages.length) {
+    const lead = await createLeadRepository(env).getLead(
+      leadId,
+      batchStages.map(stageStatusColumn),
+    );
+    for (const stage of batchStages) {
+      const { status } = stageStatusOf(lead, stage);
+      if (status !== "pending" && status !== "running") stages[stage] = status;
+    }
+  }
+
+  await new LeadBatchService(env.DB).updateItem(
+    itemId,
+    error ? "failed" : "done",
+    stages,
+    error,
+  );
+}
+
+// Queue consumer for LEAD_QUEUE; exported from the Worker entry in wrapper.js
+export async function handleLeadQueue(
+  batch: MessageBatch<LeadBatchMessage>,
+  env: Env,
+) {
+  try {
+    await startLeadWorkflows(
+      env,
+      batch.messages.map((message) => message.body),
+    );
+    batch.ackAll();
+  } catch (err: any) {
+    console.error("Failed to start batch workflows:", err);
+    // Once the last delivery fails the item would stay pending forever
+    for (const message of batch.messages) {
+      if (message.attempts < MAX_DELIVERY_ATTEMPTS) {
+        message.retry();
+        continue;
+      }
+      await finishBatchItem(
+        env,
+        message.body,
+        [],
+        `Enrichment could not be started: ${err.message}`,
+      );
+      message.ack();
+      // Hand the freed slot on, or the rest of the batch would never start
+      await startNextBatchItem(env, message.body.itemId).catch((err) =>
+        console.error("Failed to start the next batch item:", err),
+      );
+    }
+  }
+}
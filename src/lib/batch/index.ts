@@ -0,0 +1,3 @@
+export * from "@/lib/batch/consumer";
+export * from "@/lib/batch/queue";
+export * from "@/lib/batch/types";
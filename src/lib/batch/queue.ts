@@ -0,0 +1,28 @@
+import { startLeadWorkflows } from "@/lib/batch/consumer";
+import type { LeadBatchMessage } from "@/lib/batch/types";
+
+// Queues accept at most 100 messages per sendBatch call
+const SEND_BATCH_LIMIT = 100;
+
+/**
+ * Sends one message per lead to LEAD_QUEUE. With LEAD_QUEUE_MODE=local, or
+ * when the binding is missing, the workflow instances the consumer would
+ * start are started right away instead, so batches work under
+ * `wrangler dev` without a queue.
+ */
+export async function enqueueLeadMessages(
+  env: Env,
+  messages: LeadBatchMessage[],
+): Promise<"queue" | "local"> {
+  if (env.LEAD_QUEUE_MODE === "local" || !env.LEAD_QUEUE) {
+    await startLeadWorkflows(env, messages);
+    return "local";
+  }
+
+  for (let i = 0; i < messages.length; i += SEND_BATCH_LIMIT) {
+    await env.LEAD_QUEUE.sendBatch(
+      messages.slice(i, i + SEND_BATCH_LIMIT).map((body) => ({ body })),
+    );
+  }
+  return "queue";
+}
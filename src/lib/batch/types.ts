@@ -0,0 +1,33 @@
+import type { EnrichmentStage } from "@/lib/enrichment/types";
+
+export type BatchStage = Exclude<EnrichmentStage, "qualify">;
+
+// The stages a batch runs for each lead, in order
+export const BATCH_STAGES: BatchStage[] = ["profile", "reels", "website", "ai"];
+
+// Most leads one batch may enrich
+export const MAX_BATCH_SIZE = 500;
+
+export type StageOutcome = "succeeded" | "skipped" | "failed";
+
+export type StageOutcomes = Partial<Record<BatchStage, StageOutcome>>;
+
+export type BatchItemStatus = "pending" | "running" | "done" | "failed";
+
+export type LeadBatchMessage = {
+  batchId: string;
+  itemId: string;
+  username: string;
+  leadId: string;
+};
+
+export type BatchProgress = {
+  batchId: string;
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+  stages: Record<BatchStage, Record<StageOutcome, number>>;
+  createdAt: string;
+};
@@ -0,0 +1,12 @@
+// CORS headers for the routes the Framer frontend calls directly
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*", // Tighten to your Framer domain in prod
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  Vary: "Origin", // Busts caches on origin changes
+};
+
+export const jsonHeaders = {
+  ...corsHeaders,
+  "Content-Type": "application/json",
+};
@@ -0,0 +1,132 @@
+import {
+  analysisPrices,
+  describePrices,
+  extractPrices,
+} from "@/lib/enrichment/prices";
+import type { AiAnalysis, LeadEnrichmentOutput } from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import { completeWithSchema, createLlmClient } from "@/lib/llm";
+import {
+  leadAnalysisSchema,
+  loadActivePrompt,
+  promptRef,
+  renderPrompt,
+  type PromptValues,
+} from "@/lib/prompts";
+
+// Values for the lead-analysis prompt's {{placeholders}}
+const buildPromptValues = ({
+  profile,
+  reels,
+  website_data,
+  er_avg,
+  priceRange,
+}: Record<string, any>): PromptValues => {
+  const hasReels = !!reels && reels.length > 0;
+  const hasWebsite = !!website_data && website_data.pagesCount > 0;
+  const websiteText =
+    website_data?.primary?.text?.substring(0, 1500) ||
+    website_data?.allPages?.[0]?.text?.substring(0, 1500) ||
+    "N/A";
+
+  return {
+    profile: JSON.stringify(profile),
+    biography: profile.biography || "N/A",
+    followers: profile.followersCount || 0,
+    verified: profile.verified || false,
+    externalUrl: profile.externalUrl || "N/A",
+    reels: hasReels
+      ? `Reels (top ${reels.length}, er_avg: ${er_avg || 0}%): ${JSON.stringify(reels)}.`
+      : "No reels data.",
+    website: hasWebsite
+      ? `Website (text from ${website_data.pagesCount} pages): ${websiteText}...`
+      : "No website data.",
+    prices: priceRange
+      ? `Detected prices: ${priceRange}.`
+      : "No prices detected.",
+  };
+};
+
+// Graceful if incomplete: proceeds with whatever earlier stages stored on the lead
+export async function runAiStage(
+  env: Env,
+  leadId: string,
+  // Recorded with the call's token usage
+  route: string,
+  // Analyze again even when the lead already has an analysis
+  { force = false }: { force?: boolean } = {},
+): Promise<NonNullable<LeadEnrichmentOutput["ai"]>> {
+  const leads = createLeadRepository(env);
+  const lead = await leads.getLead(leadId, [
+    "raw_data",
+    "reels",
+    "website_data",
+    "er_avg",
+    "openai",
+    "ai_analysis_complete",
+  ]);
+
+  const { raw_data: profile, reels, website_data, er_avg, openai } = lead;
+  if (!force && lead.ai_analysis_complete && openai) {
+    return { success: true, data: openai, cached: true };
+  }
+
+  if (!profile) {
+    const error = "No profile data—rerun apify_run first";
+    await leads.markStageSkipped(leadId, "ai", error);
+    return { success: false, error };
+  }
+
+  await leads.markStageRunning(leadId, "ai");
+
+  // Prices come from the website data, not the model
+  const priceSummary =
+    website_data?.prices ?? (website_data ? extractPrices(website_data) : null);
+  const priceRange = describePrices(priceSummary);
+
+  let analysis: AiAnalysis;
+  try {
+    const template = await loadActivePrompt(env, "lead-analysis");
+    const prompt = renderPrompt(
+      template,
+      buildPromptValues({ profile, reels, website_data, er_avg, priceRange }),
+    );
+
+    const { data, model, attempts } = await completeWithSchema(
+      createLlmClient(env, { route, leadId }),
+      {
+        task: "lead-analysis",
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
+        ],
+        temperature: 0.1,
+        maxTokens: 400,
+      },
+      leadAnalysisSchema,
+    );
+
+    analysis = {
+      ...data,
+      ...analysisPrices(priceSummary),
+      prompt: promptRef(template, model),
+      attempts,
+    };
+  } catch (err: any) {
+    console.error("LLM error:", err);
+    const error = `AI error: ${err.message}`;
+    await leads.markStageFailed(leadId, "ai", error);
+    return { success: false, error };
+  }
+
+  await leads.updateStageResult(leadId, "ai", {
+    openai: analysis,
+    ai_analysis_complete: true,
+  });
+
+  console.log(
+    `AI analysis cached for lead ${leadId}: niche="${analysis.niche}", prices=${analysis.prices.length} items`,
+  );
+
+  return { success: true, data: analysis };
+}
@@ -0,0 +1,403 @@
+import type {
+  Contact,
+  ContactKind,
+  ProfileData,
+  WebsiteData,
+} from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import { normalizeHandle } from "@/lib/leads/handles";
+
+// A link-in-bio page can list hundreds of links; keep the first few
+const MAX_CONTACTS = 50;
+
+const EMAIL_PATTERN =
+  /(?<![\w.%+-])[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+(?![\w-])/gi;
+
+// "+44 20 7946 0958", "(555) 123-4567", "tel:+15551234567"; a ":" on either
+// side makes it part of a time ("10:00 555 1234", "2023-10-15 12:30")
+const PHONE_PATTERN =
+  /(?<![\w+/=.:-])(tel:)?((?:\+|00)?\d[\d\s(). -]{6,20}\d)(?![\w:-])/gi;
+
+// "2024-03-15", "15.03.2024", "03/15/24": dates whose digits can pass for a phone number
+const DATE_PATTERN =
+  /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})(?!\d)/;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>()[\]]+/gi;
+
+// Relative links in crawled markdown, e.g. [Contact](/pages/contact)
+const MARKDOWN_LINK_PATTERN = /\]\((\/[^)\s]*)\)/g;
+
+// @mentions in an Instagram bio are Instagram accounts; the lookbehind skips emails
+const MENTION_PATTERN = /(?<![\w.@])@([a-z0-9._]{1,30})/gi;
+
+const WHATSAPP_PATTERNS = [
+  /(?<![\w.-])(?:www\.)?wa\.me\/\+?(\d{6,15})/gi,
+  /(?<![\w.-])(?:api\.|web\.)?whatsapp\.com\/send\/?\?phone=\+?(\d{6,15})/gi,
+];
+
+const WHATSAPP_GROUP_PATTERN =
+  /(?<![\w.-])chat\.whatsapp\.com\/([a-z0-9]{10,40})/gi;
+
+const CONTACT_PATH_PATTERN =
+  /(^|\/)(contact|contact-us|contactus|kontakt|contacto|contatti|get-in-touch|enquiries|inquiries)(\/|\.html?|$)/i;
+
+// Profile paths that aren't accounts, e.g. facebook.com/sharer.php
+const SOCIAL_RESERVED = new Set([
+  "home",
+  "i",
+  "intent",
+  "login",
+  "pages",
+  "plugins",
+  "privacy",
+  "profile.php",
+  "search",
+  "share",
+  "sharer",
+  "sharer.php",
+  "signup",
+  "tr",
+  "watch",
+]);
+
+// Each pattern captures the profile path; url rebuilds the canonical profile URL from it
+const SOCIAL_PATTERNS: {
+  platform: string;
+  regex: RegExp;
+  url: (path: string) => string;
+}[] = [
+  {
+    platform: "tiktok",
+    regex: /(?<![\w.-])(?:www\.)?tiktok\.com\/@([a-z0-9._]{2,24})/gi,
+    url: (handle) => `https://www.tiktok.com/@${handle}`,
+  },
+  {
+    platform: "youtube",
+    regex:
+      /(?<![\w.-])(?:www\.|m\.)?youtube\.com\/(@[\w.-]{3,30}|(?:c|user)\/[\w.-]{1,100}|channel\/[\w-]{24})/gi,
+    url: (path) => `https://www.youtube.com/${path}`,
+  },
+  {
+    platform: "facebook",
+    // Numeric profiles only have profile.php?id=…, so that query is kept
+    regex:
+      /(?<![\w.-])(?:www\.|m\.)?(?:facebook|fb)\.com\/(profile\.php\?id=\d+|[a-z0-9.]{5,50})/gi,
+    url: (handle) => `https://www.facebook.com/${handle}`,
+  },
+  {
+    platform: "x",
+    regex:
+      /(?<![\w.-])(?:www\.)?(?:twitter|x)\.com\/([a-z0-9_]{1,15})(?![\w])/gi,
+    url: (handle) => `https://x.com/${handle}`,
+  },
+  {
+    platform: "linkedin",
+    regex:
+      /(?<![\w.-])(?:[a-z]{2,3}\.)?linkedin\.com\/((?:in|company)\/[\w-]{2,100})/gi,
+    url: (path) => `https://www.linkedin.com/${path}`,
+  },
+  {
+    platform: "pinterest",
+    regex:
+      /(?<![\w.-])(?:[a-z]{2}\.)?pinterest\.com\/([a-z0-9_]{3,30})(?![\w])/gi,
+    url: (handle) => `https://www.pinterest.com/${handle}`,
+  },
+  {
+    platform: "threads",
+    regex: /(?<![\w.-])(?:www\.)?threads\.(?:net|com)\/@([a-z0-9._]{1,30})/gi,
+    url: (handle) => `https://www.threads.net/@${handle}`,
+  },
+  {
+    platform: "snapchat",
+    regex: /(?<![\w.-])(?:www\.)?snapchat\.com\/add\/([\w.-]{3,15})/gi,
+    url: (handle) => `https://www.snapchat.com/add/${handle}`,
+  },
+];
+
+// Not real mailboxes: documentation domains and asset names like logo@2x.png
+const RESERVED_EMAIL_DOMAINS = new Set([
+  "example.com",
+  "example.org",
+  "example.net",
+  "domain.com",
+  "email.com",
+  "yourdomain.com",
+  "sentry.io",
+  "wixpress.com",
+]);
+
+const RESERVED_EMAIL_TLDS = new Set([
+  "example",
+  "invalid",
+  "local",
+  "localhost",
+  "test",
+  // File extensions that show up in retina asset names
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "webp",
+  "svg",
+  "css",
+  "js",
+]);
+
+// Misspelled mailbox providers that can't receive mail
+const TYPO_EMAIL_DOMAINS = new Set([
+  "gamil.com",
+  "gmai.com",
+  "gmial.com",
+  "gmail.co",
+  "gmail.con",
+  "hotmai.com",
+  "hotmial.com",
+  "outlok.com",
+  "yaho.com",
+  "yahoo.co",
+]);
+
+const DOMAIN_LABEL_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+/**
+ * Checks an email's syntax and whether its domain could plausibly take mail:
+ * well-formed labels, an alphabetic TLD, and not a placeholder, asset name
+ * or known typo. No DNS lookup, so a live MX record isn't guaranteed.
+ */
+export const isValidEmail = (email: string) => {
+  const [local, domain, ...rest] = email.toLowerCase().split("@");
+  if (rest.length || !local || !domain) return false;
+  if (local.length > 64 || domain.length > 253) return false;
+  if (/^\.|\.$|\.\./.test(local)) return false;
+
+  const labels = domain.split(".");
+  const tld = labels[labels.length - 1];
+  return (
+    labels.length >= 2 &&
+    labels.every((label) => DOMAIN_LABEL_PATTERN.test(label)) &&
+    /^(?:[a-z]{2,24}|xn--[a-z0-9-]{1,59})$/.test(tld) &&
+    !RESERVED_EMAIL_TLDS.has(tld) &&
+    !RESERVED_EMAIL_DOMAINS.has(domain) &&
+    !TYPO_EMAIL_DOMAINS.has(domain)
+  );
+};
+
+/**
+ * E.164 form of a phone number, or null when it can't be read as one.
+ * Numbers with "+" or "00" keep their country code; numbers without one are
+ * only accepted as North American (+1) numbers, since no other default
+ * country can be assumed.
+ */
+export const normalizePhone = (raw: string) => {
+  const trimmed = raw.trim().replace(/^tel:/i, "");
+  const international = trimmed.match(/^(\+|00)/);
+  const digits = trimmed
+    .slice(international?.[0].length ?? 0)
+    .replace(/\D/g, "");
+
+  if (international) {
+    return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+  }
+  if (/^[2-9]\d{2}[2-9]\d{6}$/.test(digits)) return `+1${digits}`;
+  if (/^1[2-9]\d{2}[2-9]\d{6}$/.test(digits)) return `+${digits}`;
+  return null;
+};
+
+// Drops the query string and fragment; null for anything that isn't an http(s) URL
+const canonicalUrl = (input: string, base?: string) => {
+  try {
+    const url = new URL(input, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return null;
+  }
+};
+
+const isContactFormUrl = (url: string) =>
+  CONTACT_PATH_PATTERN.test(new URL(url).pathname);
+
+type ContactMatch = Omit<Contact, "source">;
+
+const findEmails = (text: string): ContactMatch[] =>
+  [...text.matchAll(EMAIL_PATTERN)]
+    .map(([email]) => email.toLowerCase())
+    .filter(isValidEmail)
+    .map((value) => ({ kind: "email", value }));
+
+// Unformatted digit runs (IDs, order numbers) only count after "tel:" or with
+// a "+", and dates never count: "Restock 2024-03-15 10:00" has no phone number
+const findPhones = (text: string): ContactMatch[] =>
+  [...text.matchAll(PHONE_PATTERN)].flatMap(([, tel, raw]) => {
+    if (DATE_PATTERN.test(raw)) return [];
+    const formatted = /[\s().-]/.test(raw) || /^(\+|00)/.test(raw);
+    const value = tel || formatted ? normalizePhone(raw) : null;
+    return value ? [{ kind: "phone" as const, value }] : [];
+  });
+
+const findWhatsapp = (text: string): ContactMatch[] => [
+  ...WHATSAPP_PATTERNS.flatMap((regex) =>
+    [...text.matchAll(regex)].flatMap(([, digits]) => {
+      const value = normalizePhone(`+${digits}`);
+      return value ? [{ kind: "whatsapp" as const, value }] : [];
+    }),
+  ),
+  ...[...text.matchAll(WHATSAPP_GROUP_PATTERN)].map(([, code]) => ({
+    kind: "whatsapp" as const,
+    value: `https://chat.whatsapp.com/${code}`,
+  })),
+];
+
+const findSocials = (text: string, ownHandle: string | null) => {
+  const matches: ContactMatch[] = SOCIAL_PATTERNS.flatMap(
+    ({ platform, regex, url }) =>
+      [...text.matchAll(regex)]
+        .map(([, path]) => path.replace(/\.+$/, ""))
+        .filter((path) => !SOCIAL_RESERVED.has(path.toLowerCase()))
+        .map((path) => ({ kind: "social", platform, value: url(path) })),
+  );
+
+  // Other Instagram accounts linked from the site; the lead's own isn't a contact
+  for (const [url] of text.matchAll(/instagram\.com\/[^\s"'<>()[\]]+/gi)) {
+    const handle = normalizeHandle(url);
+    if (handle && handle !== ownHandle) {
+      matches.push({
+        kind: "social",
+        platform: "instagram",
+        value: `https://www.instagram.com/${handle}/`,
+      });
+    }
+  }
+  return matches;
+};
+
+const findMentions = (text: string, ownHandle: string | null) =>
+  [...text.matchAll(MENTION_PATTERN)].flatMap(([, mention]) => {
+    // A full stop ends the sentence, not the handle: "Collab with @otherbrand."
+    const handle = normalizeHandle(mention.replace(/\.+$/, ""));
+    return handle && handle !== ownHandle
+      ? [
+          {
+            kind: "social" as const,
+            platform: "instagram",
+            value: `https://www.instagram.com/${handle}/`,
+          },
+        ]
+      : [];
+  });
+
+const findContactForms = (text: string, pageUrl?: string): ContactMatch[] => {
+  const urls = [
+    ...[...text.matchAll(URL_PATTERN)].map(([url]) => canonicalUrl(url)),
+    ...(pageUrl
+      ? [...text.matchAll(MARKDOWN_LINK_PATTERN)].map(([, path]) =>
+          canonicalUrl(path, pageUrl),
+        )
+      : []),
+  ];
+  return urls
+    .filter((url): url is string => !!url && isContactFormUrl(url))
+    .map((value) => ({ kind: "contact_form", value }));
+};
+
+const findContacts = (
+  text: string,
+  ownHandle: string | null,
+  pageUrl?: string,
+): ContactMatch[] => [
+  ...findEmails(text),
+  ...findWhatsapp(text),
+  ...findPhones(text),
+  ...findContactForms(text, pageUrl),
+  ...findSocials(text, ownHandle),
+];
+
+/**
+ * Pulls emails, phone numbers, WhatsApp links, contact forms and social
+ * profiles out of the profile's bio and external URL and every scraped
+ * website page. Each contact is kept once, tagged with the first place it
+ * was found: the bio, then the external URL, then the pages in crawl order.
+ */
+export const extractContacts = ({
+  username,
+  profile,
+  websiteData,
+}: {
+  username?: string | null;
+  profile?: ProfileData | null;
+  websiteData?: WebsiteData | null;
+}): Contact[] => {
+  const ownHandle = normalizeHandle(profile?.username || username || "");
+  const found: Contact[] = [];
+  const add = (matches: ContactMatch[], source: string) =>
+    matches.forEach((match) => found.push({ ...match, source }));
+
+  if (profile?.biography) {
+    add(
+      [
+        ...findContacts(profile.biography, ownHandle),
+        ...findMentions(profile.biography, ownHandle),
+      ],
+      "biography",
+    );
+  }
+  if (profile?.externalUrl) {
+    const externalUrl = canonicalUrl(profile.externalUrl)
+      ? profile.externalUrl
+      : `https://${profile.externalUrl.trim()}`;
+    add(findContacts(externalUrl, ownHandle), "externalUrl");
+  }
+  for (const page of websiteData?.allPages ?? []) {
+    const pageUrl = page.loadedUrl || page.url;
+    const formUrl = canonicalUrl(pageUrl);
+    add(
+      [
+        ...(formUrl && isContactFormUrl(formUrl)
+          ? [{ kind: "contact_form" as ContactKind, value: formUrl }]
+          : []),
+        ...findContacts(
+          [page.description, page.text, page.markdown].join("\n"),
+          ownHandle,
+          pageUrl,
+        ),
+      ],
+      pageUrl,
+    );
+  }
+
+  const seen = new Set<string>();
+  return found
+    .filter(({ kind, value }) => {
+      const key = `${kind}:${value}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CONTACTS);
+};
+
+/**
+ * Extracts the lead's contacts from what the profile and website stages
+ * stored and saves them on the lead. Best effort, like the reels snapshot:
+ * a failure is logged rather than failing the stage.
+ */
+export async function refreshLeadContacts(env: Env, leadId: string) {
+  try {
+    const leads = createLeadRepository(env);
+    const lead = await leads.getLead(leadId, [
+      "username",
+      "raw_data",
+      "website_data",
+    ]);
+    const contacts = extractContacts({
+      username: lead.username,
+      profile: lead.raw_data,
+      websiteData: lead.website_data,
+    });
+    await leads.updateLead(leadId, { contacts });
+    return contacts;
+  } catch (err) {
+    console.error(`Contact extraction error (${leadId}):`, err);
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+import type {
+  DiscoveryOptions,
+  DiscoveryResult,
+  RelatedProfile,
+} from "@/lib/enrichment/types";
+import { createLeadRepository, DuplicateLeadError } from "@/lib/leads";
+import { normalizeHandle } from "@/lib/leads/handles";
+import { DiscoverySlotService } from "@/lib/services/discovery_slot";
+
+export const DEFAULT_DISCOVERY: DiscoveryOptions = { depth: 1, maxPerSeed: 10 };
+
+// Every level multiplies the number of profile scrapes, so keep crawls shallow
+export const MAX_DISCOVERY_DEPTH = 3;
+export const MAX_DISCOVERY_PER_SEED = 100;
+
+const clampInt = (value: unknown, fallback: number, max: number) => {
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) && number >= 1
+    ? Math.min(number, max)
+    : fallback;
+};
+
+// Reads depth/maxPerSeed from a request body, falling back to the defaults
+export const parseDiscoveryOptions = (input: any): DiscoveryOptions => ({
+  depth: clampInt(input?.depth, DEFAULT_DISCOVERY.depth, MAX_DISCOVERY_DEPTH),
+  maxPerSeed: clampInt(
+    input?.maxPerSeed,
+    DEFAULT_DISCOVERY.maxPerSeed,
+    MAX_DISCOVERY_PER_SEED,
+  ),
+});
+
+/**
+ * Creates a pending lead for each related profile that isn't a lead yet, up
+ * to what's left of the seed's cap. The cap is reserved in D1 before any lead
+ * is created, since sibling crawls of one seed run at the same time.
+ * Discovered leads record the seed and their level below it.
+ */
+export async function discoverRelatedLeads(
+  env: Env,
+  relatedAccounts: RelatedProfile[],
+  {
+    seedLeadId,
+    level,
+    maxPerSeed,
+  }: { seedLeadId: string; level: number; maxPerSeed: number },
+): Promise<Omit<DiscoveryResult, "crawlInstanceIds">> {
+  const usernames = [
+    ...new Set(
+      relatedAccounts
+        .map((account) => normalizeHandle(account.username ?? ""))
+        .filter((username): username is string => !!username),
+    ),
+  ];
+  if (usernames.length === 0) return { created: [], existing: [] };
+
+  const leads = createLeadRepository(env);
+  const existing = await leads.findExistingUsernames(usernames);
+  const reserved = await new DiscoverySlotService(env.DB).reserve(
+    seedLeadId,
+    usernames.filter((username) => !existing.has(username)),
+    maxPerSeed,
+  );
+
+  const created: DiscoveryResult["created"] = [];
+  const raced: string[] = [];
+  for (const username of reserved) {
+    try {
+      const leadId = await leads.createLead(username, {
+        seed_lead_id: seedLeadId,
+        discovery_depth: level + 1,
+      });
+      created.push({ leadId, username });
+    } catch (err) {
+      // A sibling crawl created it first
+      if (!(err instanceof DuplicateLeadError)) throw err;
+      raced.push(username);
+    }
+  }
+
+  console.log(
+    `Discovered ${created.length} leads from seed ${seedLeadId} at level ${level + 1}; ${existing.size + raced.length} already existed`,
+  );
+
+  return { created, existing: [...existing.keys(), ...raced] };
+}
@@ -0,0 +1,295 @@
+import type {
+  PriceAmount,
+  PriceSummary,
+  WebsiteData,
+} from "@/lib/enrichment/types";
+
+// Currencies whose minor unit isn't hundredths
+const MINOR_UNIT_DIGITS: Record<string, number> = { JPY: 0, KRW: 0 };
+
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  $: "USD",
+  US$: "USD",
+  C$: "CAD",
+  CA$: "CAD",
+  A$: "AUD",
+  AU$: "AUD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+};
+
+const CURRENCY_CODES = ["USD", "EUR", "GBP", "CAD", "AUD", "NZD", "CHF", "JPY"];
+
+const SYMBOL = "(US\\$|CA?\\$|AU?\\$|\\$|€|£|¥)";
+const CODE = `(${CURRENCY_CODES.join("|")})`;
+// 29 / 29.99 / 29,99 / 1,299.99 / 1.299,99 / 1 299,99
+const AMOUNT =
+  "(\\d{1,3}(?:[.,\\u00a0 ]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)";
+
+// Each pattern captures [currency, amount] or [amount, currency]
+const PATTERNS: { regex: RegExp; currencyFirst: boolean }[] = [
+  { regex: new RegExp(`${SYMBOL}\\s?${AMOUNT}`, "g"), currencyFirst: true },
+  { regex: new RegExp(`\\b${CODE}\\s?${AMOUNT}`, "g"), currencyFirst: true },
+  { regex: new RegExp(`${AMOUNT}\\s?${SYMBOL}`, "g"), currencyFirst: false },
+  { regex: new RegExp(`${AMOUNT}\\s?${CODE}\\b`, "g"), currencyFirst: false },
+];
+
+// Two prices this close together (e.g. "Regular price $49.99 Sale price $29.99") are read as a sale pair
+const PAIR_MAX_GAP = 40;
+
+// A pair also needs one of these between the prices or just around them
+// ("Was $60 now $45", "~~$60~~ $45", "$60 $45 Sale"), so ranges ("$9 – $19",
+// "From $9 to $19"), size ladders ("S $10 M $20") and lists ("Free shipping
+// over $50 · Tees $25") stay separate prices
+const SALE_CUE =
+  /\b(?:sale|was|now|compare[- ]at|regular|reg|original(?:ly)?|save|off|discount(?:ed)?|statt|reduziert|promo|soldes?|oferta|sconto)\b|~~|<(?:s|del|strike)>/i;
+
+// Characters before the first price and after the second searched for a cue
+const SALE_CUE_REACH = 20;
+
+// Ignore amounts that are almost certainly not product prices
+const MAX_PRICE = 100_000;
+
+type PriceMatch = PriceAmount & { index: number; end: number };
+
+type PriceCandidate = PriceMatch & { currencyFirst: boolean; bare: boolean };
+
+const minorDigits = (currency: string) => MINOR_UNIT_DIGITS[currency] ?? 2;
+
+// The last "." or "," followed by one or two digits is the decimal separator; all others group thousands
+export const parseAmount = (raw: string) => {
+  const cleaned = raw.replace(/[  ]/g, "");
+  const match = cleaned.match(/^(.*)[.,](\d{1,2})$/);
+  const whole = (match ? match[1] : cleaned).replace(/[.,]/g, "");
+  const amount = Number(match ? `${whole}.${match[2]}` : whole);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const toMinorUnits = (amount: number, currency: string) =>
+  Math.round(amount * 10 ** minorDigits(currency));
+
+export const fromMinorUnits = (amountMinor: number, currency: string) =>
+  amountMinor / 10 ** minorDigits(currency);
+
+export const formatPrice = ({ amountMinor, currency }: PriceAmount) => {
+  const amount = fromMinorUnits(amountMinor, currency);
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+// A quantity right before a price is not an amount-first price of its own:
+// "Set of 3 $45.00" is $45.00, not $3, and "Size 10 $59.99" is $59.99, not $10
+const isQuantity = (amountFirst: PriceCandidate, next: PriceCandidate) =>
+  !amountFirst.currencyFirst &&
+  amountFirst.bare &&
+  next.currencyFirst &&
+  next.currency === amountFirst.currency;
+
+export const findPrices = (text: string): PriceMatch[] => {
+  const candidates: PriceCandidate[] = [];
+
+  for (const { regex, currencyFirst } of PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const [full, first, second] = match;
+      const token = currencyFirst ? first : second;
+      const currency = SYMBOL_CURRENCIES[token] ?? token;
+      const raw = currencyFirst ? second : first;
+      const amount = parseAmount(raw);
+      if (amount === null || amount <= 0 || amount > MAX_PRICE) continue;
+
+      const index = match.index ?? 0;
+      candidates.push({
+        amountMinor: toMinorUnits(amount, currency),
+        currency,
+        index,
+        end: index + full.length,
+        currencyFirst,
+        bare: /^\d+$/.test(raw),
+      });
+    }
+  }
+
+  // Readings overlap ("$29 USD", "29,99 € 19,99 €"); the leftmost one wins,
+  // unless it's a bare quantity sharing its symbol with the price after it
+  const matches: PriceCandidate[] = [];
+  candidates
+    .sort((a, b) => a.index - b.index || b.end - a.end)
+    .forEach((candidate) => {
+      const last = matches[matches.length - 1];
+      if (!last || candidate.index >= last.end) matches.push(candidate);
+      else if (isQuantity(last, candidate))
+        matches[matches.length - 1] = candidate;
+    });
+  return matches;
+};
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+const uniqueAmounts = (amounts: PriceAmount[]) =>
+  [
+    ...new Map(
+      amounts.map((amount) => [
+        `${amount.currency}:${amount.amountMinor}`,
+        amount,
+      ]),
+    ).values(),
+  ].sort((a, b) => a.amountMinor - b.amountMinor);
+
+const summarize = (
+  regular: PriceAmount[],
+  sales: PriceSummary["sales"],
+  source: PriceSummary["source"],
+): PriceSummary => {
+  const all = [...regular, ...sales.map((pair) => pair.sale)];
+
+  const counts = new Map<string, number>();
+  all.forEach(({ currency }) =>
+    counts.set(currency, (counts.get(currency) ?? 0) + 1),
+  );
+  const currency =
+    [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  const amounts = all
+    .filter((price) => price.currency === currency)
+    .map((price) => price.amountMinor)
+    .sort((a, b) => a - b);
+
+  return {
+    source,
+    currency,
+    regular: uniqueAmounts(regular),
+    sales,
+    minMinor: amounts.length ? amounts[0] : null,
+    medianMinor: amounts.length ? median(amounts) : null,
+    maxMinor: amounts.length ? amounts[amounts.length - 1] : null,
+  };
+};
+
+// Whether a cue sits between the prices, or within SALE_CUE_REACH of them on their line
+const hasSaleCue = (text: string, first: PriceMatch, second: PriceMatch) => {
+  const before = text
+    .slice(Math.max(0, first.index - SALE_CUE_REACH), first.index)
+    .split("\n")
+    .pop();
+  const after = text
+    .slice(second.end, second.end + SALE_CUE_REACH)
+    .split("\n")[0];
+  return SALE_CUE.test(
+    `${before} ${text.slice(first.end, second.index)} ${after}`,
+  );
+};
+
+// Pairs neighbouring prices in the same currency into regular/sale prices
+const pairPrices = (matches: PriceMatch[], text: string) => {
+  const regular: PriceAmount[] = [];
+  const sales: PriceSummary["sales"] = [];
+
+  for (let i = 0; i < matches.length; i++) {
+    const current = matches[i];
+    const next = matches[i + 1];
+    const isPair =
+      next &&
+      next.currency === current.currency &&
+      next.amountMinor !== current.amountMinor &&
+      next.index - current.end <= PAIR_MAX_GAP &&
+      !text.slice(current.end, next.index).includes("\n") &&
+      hasSaleCue(text, current, next);
+
+    if (isPair) {
+      const [low, high] =
+        current.amountMinor < next.amountMinor
+          ? [current, next]
+          : [next, current];
+      sales.push({
+        sale: { amountMinor: low.amountMinor, currency: low.currency },
+        regular: { amountMinor: high.amountMinor, currency: high.currency },
+      });
+      i++;
+    } else {
+      regular.push({
+        amountMinor: current.amountMinor,
+        currency: current.currency,
+      });
+    }
+  }
+
+  return { regular, sales };
+};
+
+/**
+ * Extracts prices from what the website stage stored: the storefront catalog
+ * when there is one, otherwise the text and markdown of every crawled page.
+ */
+export const extractPrices = (websiteData: WebsiteData): PriceSummary => {
+  const { catalog } = websiteData;
+  if (catalog?.currency) {
+    const currency = catalog.currency;
+    const regular: PriceAmount[] = [];
+    const sales: PriceSummary["sales"] = [];
+
+    for (const product of catalog.products) {
+      if (product.price === null) continue;
+      const price = {
+        amountMinor: toMinorUnits(product.price, currency),
+        currency,
+      };
+      if (product.compareAtPrice !== null) {
+        sales.push({
+          sale: price,
+          regular: {
+            amountMinor: toMinorUnits(product.compareAtPrice, currency),
+            currency,
+          },
+        });
+      } else {
+        regular.push(price);
+      }
+    }
+
+    return summarize(regular, sales, "catalog");
+  }
+
+  const regular: PriceAmount[] = [];
+  const sales: PriceSummary["sales"] = [];
+  for (const page of websiteData.allPages ?? []) {
+    // Markdown repeats the text, so only fall back to it when there's no text
+    const text = page.text || page.markdown || "";
+    const pairs = pairPrices(findPrices(text), text);
+    regular.push(...pairs.regular);
+    sales.push(...pairs.sales);
+  }
+
+  return summarize(regular, sales, "text");
+};
+
+// AiAnalysis' price fields: every current selling price, and the sale prices among them
+export const analysisPrices = (summary: PriceSummary | null) => {
+  if (!summary) return { prices: [], pricesLow: [] };
+
+  const sale = summary.sales.map((pair) => pair.sale);
+  return {
+    prices: uniqueAmounts([...summary.regular, ...sale]).map(formatPrice),
+    pricesLow: uniqueAmounts(sale).map(formatPrice),
+  };
+};
+
+// One-line description of the price range for prompts and logs
+export const describePrices = (summary: PriceSummary | null) => {
+  if (!summary?.currency || summary.minMinor === null) return null;
+
+  const price = (amountMinor: number) =>
+    formatPrice({ amountMinor, currency: summary.currency! });
+  return `${price(summary.minMinor)}–${price(summary.maxMinor!)} (median ${price(summary.medianMinor!)}), ${summary.sales.length} on sale`;
+};
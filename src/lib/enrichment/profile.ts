@@ -0,0 +1,141 @@
+import {
+  ACTORS,
+  createApifyClient,
+  type InstagramProfileScraperInput,
+} from "@/lib/apify";
+import { refreshLeadContacts } from "@/lib/enrichment/contacts";
+import {
+  lookupCachedProfile,
+  saveCachedProfile,
+} from "@/lib/enrichment/profile_cache";
+import { failStage } from "@/lib/enrichment/status";
+import type {
+  CacheInfo,
+  ProfileData,
+  ProfileStageResult,
+  RelatedProfile,
+} from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import { createMediaStore } from "@/lib/media";
+import type { LeadFields } from "@/lib/services/lead";
+
+// Direct profile scrape via usernames array (singleton for now)
+export const PROFILE_ACTOR_ID = ACTORS.instagramProfileScraper;
+
+export const buildProfileInput = (
+  username: string,
+): InstagramProfileScraperInput => ({
+  usernames: [username],
+  proxy: { useApifyProxy: true }, // Anti-block essential
+});
+
+export const extractProfile = (profile: any): ProfileData => ({
+  username: profile.username,
+  followersCount: profile.followersCount,
+  restricted: profile.isPrivate || false, // Maps to private flag
+  verified: profile.isVerified || false,
+  biography: profile.biography || "",
+  profilePicture: profile.profilePicUrlHD || profile.profilePicUrl,
+  externalUrl: profile.externalUrl || null,
+});
+
+const profileLeadFields = (
+  data: ProfileData,
+  upload: ProfileStageResult["upload"],
+): LeadFields => ({
+  raw_data: data,
+  ...(upload?.success && {
+    profile_picture_key: upload.key,
+    profile_picture_url: upload.url,
+  }),
+});
+
+export async function completeProfileStage(
+  env: Env,
+  { username, leadId }: { username: string; leadId?: string },
+  datasetId: string,
+): Promise<ProfileStageResult> {
+  const results = await createApifyClient(env).listDatasetItems(datasetId, {
+    maxItems: 1,
+  });
+
+  if (results.length === 0) {
+    return failStage(env, leadId, "profile", "No profile found for username");
+  }
+
+  const profile = results[0];
+  const data = extractProfile(profile);
+
+  let upload: ProfileStageResult["upload"];
+  try {
+    const media = await createMediaStore(env).storeFromUrl(
+      data.profilePicture,
+      {
+        kind: "profile-picture",
+      },
+    );
+    upload = {
+      success: true,
+      message: media.created
+        ? "Profile picture uploaded successfully"
+        : "Profile picture already stored",
+      key: media.key,
+      url: media.url,
+    };
+  } catch (err: any) {
+    // We deliberately continue — the core data is still valid
+    console.error("Profile picture upload error:", err);
+    upload = {
+      success: false,
+      message: `Profile picture upload failed: ${err.message}`,
+    };
+  }
+
+  const relatedAccounts: RelatedProfile[] = profile.relatedProfiles || [];
+  await saveCachedProfile(env, username, { data, relatedAccounts, upload });
+
+  if (leadId) {
+    await createLeadRepository(env).updateStageResult(
+      leadId,
+      "profile",
+      profileLeadFields(data, upload),
+    );
+    await refreshLeadContacts(env, leadId);
+  }
+
+  return { success: true, data, relatedAccounts, upload };
+}
+
+/**
+ * Serves the profile stage from the profile cache when it has a fresh copy,
+ * storing it on the lead as a scrape would. `result` is null on a miss.
+ */
+export async function loadCachedProfileStage(
+  env: Env,
+  { username, leadId }: { username: string; leadId?: string },
+  { force = false }: { force?: boolean } = {},
+): Promise<{ cache: CacheInfo; result: ProfileStageResult | null }> {
+  const { cache, entry } = await lookupCachedProfile(env, username, { force });
+  if (!entry) return { cache, result: null };
+
+  const upload = entry.upload ?? undefined;
+  if (leadId) {
+    await createLeadRepository(env).updateStageResult(
+      leadId,
+      "profile",
+      profileLeadFields(entry.data, upload),
+    );
+    await refreshLeadContacts(env, leadId);
+  }
+
+  return {
+    cache,
+    result: {
+      success: true,
+      data: entry.data,
+      relatedAccounts: entry.relatedAccounts,
+      upload,
+      cache,
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { CacheInfo, ProfileStageResult } from "@/lib/enrichment/types";
+import { normalizeHandle } from "@/lib/leads/handles";
+import {
+  ProfileCacheService,
+  type ProfileCacheEntry,
+} from "@/lib/services/profile_cache";
+
+export const DEFAULT_PROFILE_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+// Cache key for a username: "@ExampleBrand " and "instagram.com/examplebrand" share an entry
+export const normalizeUsername = (username: string) =>
+  normalizeHandle(username) ?? username.trim().replace(/^@+/, "").toLowerCase();
+
+const cacheTtlSeconds = (env: Env) => {
+  const ttl = Number(env.PROFILE_CACHE_TTL_SECONDS);
+  return env.PROFILE_CACHE_TTL_SECONDS && Number.isFinite(ttl) && ttl >= 0
+    ? ttl
+    : DEFAULT_PROFILE_CACHE_TTL_SECONDS;
+};
+
+/**
+ * Returns the cached profile for a username when it's younger than
+ * PROFILE_CACHE_TTL_SECONDS. A cache that can't be read counts as a miss.
+ */
+export async function lookupCachedProfile(
+  env: Env,
+  username: string,
+  { force = false }: { force?: boolean } = {},
+): Promise<{ cache: CacheInfo; entry: ProfileCacheEntry | null }> {
+  if (force) {
+    return { cache: { status: "bypass", ageSeconds: null }, entry: null };
+  }
+
+  let entry: ProfileCacheEntry | null;
+  try {
+    entry = await new ProfileCacheService(env.DB).get(
+      normalizeUsername(username),
+    );
+  } catch (err) {
+    console.error("Profile cache read error:", err);
+    entry = null;
+  }
+  if (!entry) {
+    return { cache: { status: "miss", ageSeconds: null }, entry: null };
+  }
+
+  const ageSeconds = Math.max(
+    0,
+    Math.round((Date.now() - Date.parse(entry.scrapedAt)) / 1000),
+  );
+  if (ageSeconds > cacheTtlSeconds(env)) {
+    return { cache: { status: "expired", ageSeconds }, entry: null };
+  }
+
+  return { cache: { status: "hit", ageSeconds }, entry };
+}
+
+// Best effort: a failed write only costs a fresh scrape next time
+export async function saveCachedProfile(
+  env: Env,
+  username: string,
+  {
+    data,
+    relatedAccounts = [],
+    upload,
+  }: Pick<
+    Extract<ProfileStageResult, { success: true }>,
+    "data" | "relatedAccounts" | "upload"
+  >,
+) {
+  try {
+    await new ProfileCacheService(env.DB).put({
+      username: normalizeUsername(username),
+      data,
+      relatedAccounts,
+      upload: upload ?? null,
+      scrapedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error("Profile cache write error:", err);
+  }
+}
@@ -0,0 +1,66 @@
+import { lookupCachedProfile } from "@/lib/enrichment/profile_cache";
+import type { CacheInfo, QualifyStageResult } from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import {
+  extractSignals,
+  scoreLead,
+  type Qualification,
+} from "@/lib/qualification/engine";
+import { loadRubric } from "@/lib/qualification/rubric";
+
+// Scores whatever the earlier stages stored; missing signals simply earn no points
+export async function runQualifyStage(
+  env: Env,
+  leadId: string,
+): Promise<QualifyStageResult> {
+  const leads = createLeadRepository(env);
+  const lead = await leads.getLead(leadId, [
+    "username",
+    "raw_data",
+    "er_avg",
+    "has_website",
+    "website_data",
+    "openai",
+  ]);
+
+  // Fall back to a fresh cached scrape of the same username
+  let cache: CacheInfo | undefined;
+  let profile = lead.raw_data;
+  if (!profile && lead.username) {
+    const lookup = await lookupCachedProfile(env, lead.username);
+    cache = lookup.cache;
+    profile = lookup.entry?.data ?? null;
+  }
+
+  if (!profile) {
+    const error = "No profile data—rerun apify_run first";
+    await leads.markStageSkipped(leadId, "qualify", error);
+    return { success: false, error, cache };
+  }
+
+  await leads.markStageRunning(leadId, "qualify");
+
+  let qualification: Qualification;
+  try {
+    qualification = scoreLead(
+      extractSignals({ ...lead, raw_data: profile }),
+      loadRubric(env),
+    );
+  } catch (err: any) {
+    // e.g. an invalid QUALIFICATION_RUBRIC
+    await leads.markStageFailed(leadId, "qualify", err.message);
+    throw err;
+  }
+
+  await leads.updateStageResult(leadId, "qualify", {
+    qualification,
+    qualification_score: qualification.score,
+    qualification_tier: qualification.tier,
+  });
+
+  console.log(
+    `Qualified lead ${leadId}: score=${qualification.score}, tier=${qualification.tier}`,
+  );
+
+  return { success: true, data: qualification, cache };
+}
@@ -0,0 +1,196 @@
+import {
+  ACTORS,
+  createApifyClient,
+  type InstagramScraperInput,
+} from "@/lib/apify";
+import { lookupCachedProfile } from "@/lib/enrichment/profile_cache";
+import {
+  computeReelMetrics,
+  viewsPerDay,
+} from "@/lib/enrichment/reels_metrics";
+import type { Reel, ReelsStageResult } from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import { createMediaStore } from "@/lib/media";
+import { ReelsSnapshotService } from "@/lib/services/reels_snapshot";
+
+export const REELS_ACTOR_ID = ACTORS.instagramScraper;
+
+export const DEFAULT_REELS_SAMPLE_SIZE = 12;
+export const MAX_REELS_SAMPLE_SIZE = 50;
+
+// Requested sample size, else REELS_SAMPLE_SIZE, else the default; capped at the max
+export const reelsSampleSize = (env: Env, requested?: number) => {
+  const size = Math.floor(Number(requested || env.REELS_SAMPLE_SIZE));
+  return Number.isFinite(size) && size >= 1
+    ? Math.min(size, MAX_REELS_SAMPLE_SIZE)
+    : DEFAULT_REELS_SAMPLE_SIZE;
+};
+
+// User reels feed, limited to the most recent few
+export const buildReelsInput = (
+  username: string,
+  sampleSize: number = DEFAULT_REELS_SAMPLE_SIZE,
+): InstagramScraperInput => ({
+  directUrls: [`https://www.instagram.com/${username}/`],
+  resultsLimit: sampleSize,
+  resultsType: "reels",
+  isUserReelFeedURL: true,
+  searchType: "user",
+  proxy: { useApifyProxy: true },
+});
+
+export const computeReels = (
+  results: any[],
+  {
+    followersCount = null,
+    now = Date.now(),
+  }: {
+    followersCount?: number | null;
+    now?: number;
+  } = {},
+) => {
+  const reels: Reel[] = results.map((reel) => {
+    const views = reel.videoPlayCount || 0;
+    const likes = reel.likesCount || 0;
+    const comments = reel.commentsCount || 0;
+    const ctr = views > 0 ? ((likes + comments) / views) * 100 : 0;
+
+    return {
+      id: reel.id,
+      url: reel.url,
+      ctr: Number(ctr.toFixed(2)),
+      likesCount: likes,
+      commentsCount: comments,
+      videoPlayCount: views,
+      timestamp: reel.timestamp,
+      viewsPerDay: viewsPerDay(
+        { timestamp: reel.timestamp, videoPlayCount: views },
+        now,
+      ),
+    };
+  });
+
+  const totalEngagement = reels.reduce(
+    (sum, r) => sum + r.likesCount + r.commentsCount,
+    0,
+  );
+  const totalViews = reels.reduce((sum, r) => sum + r.videoPlayCount, 0);
+  const er_avg =
+    totalViews > 0
+      ? Number(((totalEngagement / totalViews) * 100).toFixed(2))
+      : null;
+
+  return {
+    reels,
+    er_avg,
+    reels_metrics: computeReelMetrics(reels, followersCount),
+  };
+};
+
+// Followers from the lead's stored profile, else from the profile cache
+async function findFollowersCount(
+  env: Env,
+  { leadId, username }: { leadId?: string; username?: string },
+) {
+  if (leadId) {
+    const lead = await createLeadRepository(env)
+      .getLead(leadId, ["raw_data"])
+      .catch(() => null);
+    if (lead?.raw_data?.followersCount) return lead.raw_data.followersCount;
+  }
+  if (username) {
+    const { entry } = await lookupCachedProfile(env, username);
+    if (entry?.data.followersCount) return entry.data.followersCount;
+  }
+  return null;
+}
+
+// Copies each reel's cover image into the media store; a failed copy leaves that reel without a thumbnail
+export async function storeReelThumbnails(
+  env: Env,
+  reels: Reel[],
+  results: any[],
+): Promise<Reel[]> {
+  const mediaStore = createMediaStore(env);
+
+  return Promise.all(
+    reels.map(async (reel, i) => {
+      const sourceUrl = results[i]?.displayUrl;
+      if (!sourceUrl) return reel;
+
+      try {
+        const media = await mediaStore.storeFromUrl(sourceUrl, {
+          kind: "reel-thumbnail",
+        });
+        return { ...reel, thumbnailKey: media.key, thumbnailUrl: media.url };
+      } catch (err) {
+        console.error(`Reel thumbnail upload error (${reel.id}):`, err);
+        return { ...reel, thumbnailKey: null, thumbnailUrl: null };
+      }
+    }),
+  );
+}
+
+// Best effort: the stage result matters more than its history
+async function recordReelsSnapshot(
+  env: Env,
+  { leadId, username }: { leadId?: string; username?: string },
+  data: Extract<ReelsStageResult, { success: true }>["data"],
+) {
+  try {
+    await new ReelsSnapshotService(env.DB).create({
+      leadId: leadId ?? null,
+      username: username ?? null,
+      erAvg: data.er_avg,
+      metrics: data.reels_metrics,
+      reels: data.reels,
+    });
+  } catch (err) {
+    console.error("Reels snapshot error:", err);
+  }
+}
+
+// Graceful: don't fail the chain, just record that the lead has no reels
+export async function skipReelsStage(
+  env: Env,
+  leadId: string | undefined,
+  error: string,
+): Promise<ReelsStageResult> {
+  if (leadId) {
+    await createLeadRepository(env).markStageSkipped(leadId, "reels", error);
+  }
+  return { success: false, error };
+}
+
+export async function completeReelsStage(
+  env: Env,
+  { leadId, username }: { leadId?: string; username?: string },
+  datasetId: string,
+): Promise<ReelsStageResult> {
+  // The run's resultsLimit already sets the sample size
+  const results = await createApifyClient(env).listDatasetItems(datasetId, {
+    maxItems: MAX_REELS_SAMPLE_SIZE,
+  });
+
+  if (results.length === 0) {
+    return skipReelsStage(env, leadId, "No reels found—private or inactive?");
+  }
+
+  const followersCount = await findFollowersCount(env, { leadId, username });
+  const data = computeReels(results, { followersCount });
+  data.reels = await storeReelThumbnails(env, data.reels, results);
+
+  await recordReelsSnapshot(env, { leadId, username }, data);
+
+  if (leadId) {
+    await createLeadRepository(env).updateStageResult(leadId, "reels", {
+      ...data,
+      has_reels: true,
+    });
+    console.log(
+      `Cached ${data.reels.length} reels for lead ${leadId}; ER_avg: ${data.er_avg}%`,
+    );
+  }
+
+  return { success: true, data };
+}
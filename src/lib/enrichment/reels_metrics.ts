@@ -0,0 +1,74 @@
+import type { Reel, ReelMetrics } from "@/lib/enrichment/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)] : null;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const postedAt = (reel: Reel) => {
+  const time = Date.parse(reel.timestamp);
+  return Number.isFinite(time) ? time : null;
+};
+
+export const viewsPerDay = (
+  reel: Pick<Reel, "timestamp" | "videoPlayCount">,
+  now: number,
+) => {
+  const time = Date.parse(reel.timestamp);
+  if (!Number.isFinite(time)) return null;
+  // Reels younger than a day count as a day old, so fresh posts don't spike
+  const ageDays = Math.max((now - time) / DAY_MS, 1);
+  return round(reel.videoPlayCount / ageDays);
+};
+
+export const computeReelMetrics = (
+  reels: Reel[],
+  followersCount: number | null,
+): ReelMetrics => {
+  const views = reels.map((reel) => reel.videoPlayCount).sort((a, b) => a - b);
+  const engagement = reels.reduce(
+    (sum, reel) => sum + reel.likesCount + reel.commentsCount,
+    0,
+  );
+
+  const times = reels
+    .map(postedAt)
+    .filter((time): time is number => time !== null)
+    .sort((a, b) => a - b);
+  const spanDays =
+    times.length > 1 ? (times[times.length - 1] - times[0]) / DAY_MS : null;
+  const gaps = times.length - 1;
+
+  const velocities = reels
+    .map((reel) => reel.viewsPerDay)
+    .filter((velocity): velocity is number => velocity !== null);
+  const medianViews = median(views);
+  const medianViewsPerDay = median(velocities);
+
+  return {
+    sampleSize: reels.length,
+    medianViews: medianViews === null ? null : round(medianViews),
+    p90Views: percentile(views, 0.9),
+    erFollowers:
+      followersCount && reels.length
+        ? round((engagement / reels.length / followersCount) * 100)
+        : null,
+    followersCount,
+    postsPerWeek: spanDays ? round((gaps / spanDays) * 7) : null,
+    avgDaysBetweenPosts: spanDays ? round(spanDays / gaps) : null,
+    medianViewsPerDay:
+      medianViewsPerDay === null ? null : round(medianViewsPerDay),
+  };
+};
@@ -0,0 +1,106 @@
+import type { ActorRun, WebhookDefinition } from "@/lib/apify";
+import { completeProfileStage } from "@/lib/enrichment/profile";
+import { completeReelsStage } from "@/lib/enrichment/reels";
+import { failStage } from "@/lib/enrichment/status";
+import type { ApifyStage, ApifyStageResult } from "@/lib/enrichment/types";
+import { completeWebsiteStage } from "@/lib/enrichment/website";
+import { ApifyRunService, type ApifyRunRecord } from "@/lib/services/apify_run";
+
+export const WEBHOOK_SECRET_HEADER = "X-Apify-Webhook-Secret";
+
+// Event the webhook sends to the workflow instance waiting on a stage's run
+export const stageRunEventType = (stage: ApifyStage) => `${stage}-run-finished`;
+
+/**
+ * Ad-hoc webhooks to register when starting a run. Returns undefined when
+ * APP_URL or APIFY_WEBHOOK_SECRET isn't configured, in which case callers
+ * fall back to polling.
+ */
+export const buildRunWebhooks = (env: Env): WebhookDefinition[] | undefined => {
+  if (!env.APP_URL || !env.APIFY_WEBHOOK_SECRET) return undefined;
+
+  return [
+    {
+      eventTypes: [
+        "ACTOR.RUN.SUCCEEDED",
+        "ACTOR.RUN.FAILED",
+        "ACTOR.RUN.TIMED_OUT",
+        "ACTOR.RUN.ABORTED",
+      ],
+      requestUrl: new URL("/api/apify/webhook", env.APP_URL).toString(),
+      headersTemplate: JSON.stringify({
+        [WEBHOOK_SECRET_HEADER]: env.APIFY_WEBHOOK_SECRET,
+      }),
+    },
+  ];
+};
+
+const runStage = async (
+  env: Env,
+  record: ApifyRunRecord,
+  run: ActorRun,
+  error?: string,
+): Promise<ApifyStageResult> => {
+  const leadId = record.lead_id ?? undefined;
+  const failure = error || `Run failed with status: ${run.status}`;
+  const succeeded = !error && run.status === "SUCCEEDED";
+
+  switch (record.stage) {
+    case "profile":
+      return succeeded
+        ? completeProfileStage(
+            env,
+            { username: record.username ?? "", leadId },
+            run.defaultDatasetId,
+          )
+        : failStage(env, leadId, "profile", failure);
+    case "reels":
+      return succeeded
+        ? completeReelsStage(
+            env,
+            { leadId, username: record.username ?? undefined },
+            run.defaultDatasetId,
+          )
+        : failStage(env, leadId, "reels", failure);
+    case "website":
+      return succeeded
+        ? completeWebsiteStage(
+            env,
+            { externalUrl: record.external_url ?? "", leadId },
+            run.defaultDatasetId,
+          )
+        : failStage(env, leadId, "website", failure);
+  }
+};
+
+/**
+ * Finishes the stage a run belongs to: fetches its dataset and stores the
+ * result on the lead, or marks the stage failed when the run failed. Safe to
+ * call more than once per run; later calls return the first call's result.
+ */
+export async function finishStageRun(env: Env, run: ActorRun, error?: string) {
+  const apifyRunService = new ApifyRunService(env.DB);
+  const record = await apifyRunService.getByRunId(run.id);
+  if (!record) {
+    throw new Error(`Unknown Apify run: ${run.id}`);
+  }
+
+  const claimed = await apifyRunService.claim(run.id, run.status);
+  if (!claimed) {
+    return {
+      record,
+      duplicate: true,
+      result: record.result as ApifyStageResult | null,
+    };
+  }
+
+  try {
+    const result = await runStage(env, record, run, error);
+    await apifyRunService.saveResult(run.id, result);
+    return { record, duplicate: false, result };
+  } catch (err) {
+    // Let a retried webhook or the workflow's next attempt finish the run
+    await apifyRunService.release(run.id);
+    throw err;
+  }
+}
@@ -0,0 +1,28 @@
+import type { EnrichmentStage } from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+
+// Status writes are no-ops for stages run without a lead
+
+export async function startStage(
+  env: Env,
+  leadId: string | undefined,
+  stage: EnrichmentStage,
+  details?: { apifyRunId?: string },
+) {
+  if (leadId) {
+    await createLeadRepository(env).markStageRunning(leadId, stage, details);
+  }
+}
+
+// Records why the stage failed and returns it as the stage's result
+export async function failStage(
+  env: Env,
+  leadId: string | undefined,
+  stage: EnrichmentStage,
+  error: string,
+): Promise<{ success: false; error: string }> {
+  if (leadId) {
+    await createLeadRepository(env).markStageFailed(leadId, stage, error);
+  }
+  return { success: false, error };
+}
@@ -0,0 +1,256 @@
+import type {
+  Catalog,
+  CatalogCollection,
+  CatalogProduct,
+  WebsitePage,
+} from "@/lib/enrichment/types";
+
+// Shopify serves at most 250 products or collections per page
+const SHOPIFY_PAGE_LIMIT = 250;
+
+// Pages of products.json read per store, i.e. at most 2,500 products
+const MAX_PRODUCT_PAGES = 10;
+
+// The catalog has no contact details or story; these theme pages usually do.
+// The first path of each group that loads is kept
+const INFO_PAGE_PATHS = [
+  ["/pages/contact", "/pages/contact-us"],
+  ["/pages/about", "/pages/about-us"],
+];
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+const fetchJson = async (url: string): Promise<any | null> => {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!response.ok || !contentType.includes("json")) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+};
+
+// Reads a JSON list endpoint page by page until a short page or the page cap
+const fetchAllPages = async (
+  url: string,
+  key: string,
+  maxPages: number,
+): Promise<any[] | null> => {
+  const items: any[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const json = await fetchJson(
+      `${url}?limit=${SHOPIFY_PAGE_LIMIT}&page=${page}`,
+    );
+    if (!Array.isArray(json?.[key])) return page === 1 ? null : items;
+    items.push(...json[key]);
+    if (json[key].length < SHOPIFY_PAGE_LIMIT) break;
+  }
+  return items;
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? entity;
+    const point = Number.parseInt(
+      code.slice(code[1].toLowerCase() === "x" ? 2 : 1),
+      code[1].toLowerCase() === "x" ? 16 : 10,
+    );
+    return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+  });
+
+// Visible text of an HTML page; links become [label](href) so their targets (mailto:, socials) survive
+const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<(script|style|noscript|svg|head)\b[\s\S]*?<\/\1>/gi, " ")
+      .replace(
+        /<a\b[^>]*?href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi,
+        (_, href, label) =>
+          ` [${label.replace(/<[^>]+>/g, " ").trim()}](${href}) `,
+      )
+      .replace(/<(br|\/p|\/div|\/li|\/h\d)\b[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+
+const metaContent = (html: string, name: string) =>
+  html.match(
+    new RegExp(
+      `<meta[^>]+(?:name|property)=["']${name}["'][^>]+content=["']([^"']*)["']`,
+      "i",
+    ),
+  )?.[1] ?? "";
+
+const fetchInfoPage = async (url: string): Promise<WebsitePage | null> => {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "text/html" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!response.ok || !contentType.includes("html")) return null;
+
+    const html = await response.text();
+    const text = htmlToText(html);
+    return {
+      url,
+      loadedUrl: response.url || url,
+      depth: 1,
+      title: decodeEntities(
+        html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() ?? "",
+      ),
+      description: decodeEntities(metaContent(html, "description")),
+      author: null,
+      keywords: null,
+      language: html.match(/<html[^>]+lang=["']([\w-]+)["']/i)?.[1] ?? "en",
+      text: text.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1"),
+      markdown: text,
+      screenshotUrl: null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The storefront's contact and about pages, for contact extraction and the
+ * website summary. A missing page is left out.
+ */
+export async function fetchStoreInfoPages(
+  storeUrl: string,
+): Promise<WebsitePage[]> {
+  const pages = await Promise.all(
+    INFO_PAGE_PATHS.map(async (paths) => {
+      for (const path of paths) {
+        const page = await fetchInfoPage(`${storeUrl}${path}`);
+        if (page) return page;
+      }
+      return null;
+    }),
+  );
+  return pages.filter((page): page is WebsitePage => page !== null);
+}
+
+const toPrice = (value: unknown) => {
+  const price = Number.parseFloat(String(value));
+  return Number.isFinite(price) ? price : null;
+};
+
+const toProduct = (storeUrl: string, product: any): CatalogProduct => {
+  const variants: any[] = product.variants ?? [];
+  const cheapest = [...variants].sort(
+    (a, b) => (toPrice(a.price) ?? Infinity) - (toPrice(b.price) ?? Infinity),
+  )[0];
+  const price = cheapest ? toPrice(cheapest.price) : null;
+  const compareAtPrice = cheapest ? toPrice(cheapest.compare_at_price) : null;
+
+  return {
+    id: product.id,
+    title: product.title ?? "",
+    handle: product.handle ?? "",
+    url: `${storeUrl}/products/${product.handle}`,
+    vendor: product.vendor || null,
+    productType: product.product_type || null,
+    price,
+    // Shopify leaves stale compare-at prices behind; only keep real markdowns
+    compareAtPrice:
+      compareAtPrice !== null && price !== null && compareAtPrice > price
+        ? compareAtPrice
+        : null,
+    available: variants.some((variant) => variant.available !== false),
+    variantCount: variants.length,
+  };
+};
+
+const toCollection = (
+  storeUrl: string,
+  collection: any,
+): CatalogCollection => ({
+  id: collection.id,
+  title: collection.title ?? "",
+  handle: collection.handle ?? "",
+  url: `${storeUrl}/collections/${collection.handle}`,
+  productsCount:
+    typeof collection.products_count === "number"
+      ? collection.products_count
+      : null,
+});
+
+/**
+ * Reads a Shopify storefront's public products.json (every page, up to
+ * MAX_PRODUCT_PAGES), collections.json and cart.js (for the currency).
+ * Returns null when the site isn't a Shopify store, so callers can fall back
+ * to crawling it.
+ */
+export async function fetchShopifyCatalog(
+  externalUrl: string,
+): Promise<Catalog | null> {
+  const storeUrl = new URL(externalUrl).origin;
+
+  const products = await fetchAllPages(
+    `${storeUrl}/products.json`,
+    "products",
+    MAX_PRODUCT_PAGES,
+  );
+  if (!products) return null;
+
+  const [collections, cart] = await Promise.all([
+    fetchAllPages(`${storeUrl}/collections.json`, "collections", 1),
+    fetchJson(`${storeUrl}/cart.js`),
+  ]);
+
+  return {
+    platform: "shopify",
+    storeUrl,
+    currency: typeof cart?.currency === "string" ? cart.currency : null,
+    products: products.map((product) => toProduct(storeUrl, product)),
+    collections: (collections ?? []).map((collection) =>
+      toCollection(storeUrl, collection),
+    ),
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+// Plain-text rendering of the catalog, so consumers of page text (the AI stage) still see the products
+export const catalogPage = (catalog: Catalog): WebsitePage => {
+  const currency = catalog.currency ? ` ${catalog.currency}` : "";
+  const lines = catalog.products.map((product) => {
+    const price =
+      product.price === null ? "no price" : `${product.price}${currency}`;
+    const sale =
+      product.compareAtPrice === null
+        ? ""
+        : ` (was ${product.compareAtPrice}${currency})`;
+    const stock = product.available ? "" : " [sold out]";
+    return `${product.title}: ${price}${sale}${stock}`;
+  });
+
+  return {
+    url: `${catalog.storeUrl}/products.json`,
+    loadedUrl: `${catalog.storeUrl}/products.json`,
+    depth: 0,
+    title: `Shopify catalog (${catalog.products.length} products)`,
+    description: catalog.collections.map((c) => c.title).join(", "),
+    author: null,
+    keywords: null,
+    language: "en",
+    text: lines.join("\n"),
+    markdown: "",
+    screenshotUrl: null,
+  };
+};
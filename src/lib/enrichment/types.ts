@@ -0,0 +1,298 @@
+import type { WebsiteSummary } from "@/lib/prompts/schemas";
+import type { PromptRef } from "@/lib/prompts/types";
+import type { Qualification } from "@/lib/qualification/engine";
+
+export const ENRICHMENT_STAGES = [
+  "profile",
+  "reels",
+  "website",
+  "ai",
+  "qualify",
+] as const;
+
+export type EnrichmentStage = (typeof ENRICHMENT_STAGES)[number];
+
+// Stages backed by an Apify actor run
+export type ApifyStage = Exclude<EnrichmentStage, "ai" | "qualify">;
+
+export const STAGE_STATES = [
+  "pending",
+  "running",
+  "succeeded",
+  "skipped",
+  "failed",
+] as const;
+
+export type StageState = (typeof STAGE_STATES)[number];
+
+// Stored per stage on the lead (profile_status, reels_status, ...)
+export type StageStatus = {
+  status: StageState;
+  // Why the stage was skipped or failed
+  reason: string | null;
+  // Runs started, counting retries
+  attempts: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Set on Apify-backed stages once the run has started
+  apifyRunId: string | null;
+};
+
+export type LeadEnrichmentParams = {
+  username?: string;
+  leadId?: string;
+  // Skips the profile lookup when the website stage is run on its own
+  externalUrl?: string;
+  // Reels to sample; defaults to REELS_SAMPLE_SIZE
+  reelsSampleSize?: number;
+  stages?: EnrichmentStage[];
+  // Scrape the profile even when the profile cache has a fresh copy, and
+  // analyze the lead again even when it already has an AI analysis
+  force?: boolean;
+  // Turns the profile's related accounts into new leads; see discovery.ts
+  discovery?: DiscoveryOptions;
+  // The lead_batch_items row to report to, when started by a lead batch
+  batchItemId?: string;
+};
+
+export type DiscoveryOptions = {
+  // Levels of related profiles to follow (1 = only the seed's own related profiles)
+  depth: number;
+  // Most leads one seed may discover, across all levels
+  maxPerSeed: number;
+  // The lead the crawl started from; defaults to the lead being enriched
+  seedLeadId?: string;
+  // How many levels below the seed the lead being enriched sits
+  level?: number;
+};
+
+export type DiscoveryResult = {
+  created: { leadId: string; username: string }[];
+  // Related usernames that already exist as leads
+  existing: string[];
+  // Workflow instances started to crawl the next level
+  crawlInstanceIds: string[];
+};
+
+export type ProfileData = {
+  username: string;
+  followersCount: number;
+  restricted: boolean;
+  verified: boolean;
+  biography: string;
+  profilePicture: string;
+  externalUrl: string | null;
+};
+
+// Shape of the profile actor's relatedProfiles entries
+export type RelatedProfile = {
+  id: string;
+  username: string;
+  full_name: string;
+  is_private: boolean;
+  is_verified: boolean;
+  profile_pic_url: string;
+};
+
+export type Reel = {
+  id: string;
+  url: string;
+  ctr: number;
+  likesCount: number;
+  commentsCount: number;
+  videoPlayCount: number;
+  timestamp: string;
+  // Views per day since the reel was posted
+  viewsPerDay: number | null;
+  // Set once the thumbnail has been copied into the media store
+  thumbnailKey?: string | null;
+  thumbnailUrl?: string | null;
+};
+
+export type WebsitePage = {
+  url: string;
+  loadedUrl: string;
+  depth: number;
+  title: string;
+  description: string;
+  author: string | null;
+  keywords: string | null;
+  language: string;
+  text: string;
+  markdown: string;
+  screenshotUrl: string | null;
+};
+
+export type CatalogProduct = {
+  id: number;
+  title: string;
+  handle: string;
+  url: string;
+  vendor: string | null;
+  productType: string | null;
+  // Cheapest variant's price and, when it's on sale, its compare-at price
+  price: number | null;
+  compareAtPrice: number | null;
+  available: boolean;
+  variantCount: number;
+};
+
+export type CatalogCollection = {
+  id: number;
+  title: string;
+  handle: string;
+  url: string;
+  productsCount: number | null;
+};
+
+export type Catalog = {
+  platform: "shopify";
+  storeUrl: string;
+  // ISO 4217 code, when the storefront reports one
+  currency: string | null;
+  products: CatalogProduct[];
+  collections: CatalogCollection[];
+  fetchedAt: string;
+};
+
+export type WebsiteData = {
+  inputUrl: string;
+  pagesCount: number;
+  primary: WebsitePage;
+  allPages: WebsitePage[];
+  // Structured products from a recognised storefront; absent for crawled sites
+  catalog?: Catalog;
+  prices?: PriceSummary;
+};
+
+export type PriceAmount = {
+  // In the currency's minor unit, e.g. cents
+  amountMinor: number;
+  // ISO 4217 code
+  currency: string;
+};
+
+export type PriceSummary = {
+  source: "catalog" | "text";
+  // The most common currency; min/median/max only count prices in it
+  currency: string | null;
+  // Distinct prices that aren't part of a sale pair, ascending
+  regular: PriceAmount[];
+  sales: { sale: PriceAmount; regular: PriceAmount }[];
+  minMinor: number | null;
+  medianMinor: number | null;
+  maxMinor: number | null;
+};
+
+// concise_run's summary as stored on the lead
+export type WebsiteSummaryRecord = {
+  // SHA-256 of the content that was summarized; an unchanged site reuses the summary
+  contentHash: string;
+  summary: WebsiteSummary;
+  prompt: PromptRef;
+  attempts: number;
+  generatedAt: string;
+};
+
+export const CONTACT_KINDS = [
+  "email",
+  "phone",
+  "whatsapp",
+  "contact_form",
+  "social",
+] as const;
+
+export type ContactKind = (typeof CONTACT_KINDS)[number];
+
+// Found in the bio, external URL or website text by contacts.ts, without the LLM
+export type Contact = {
+  kind: ContactKind;
+  // Lowercased email, E.164 phone number, or URL (WhatsApp groups, forms, social profiles)
+  value: string;
+  // Social network of a social contact, e.g. "tiktok"
+  platform?: string;
+  // "biography", "externalUrl", or the URL of the website page it was found on
+  source: string;
+};
+
+export type AiAnalysis = {
+  summary: string | null;
+  prices: string[];
+  pricesLow: string[];
+  niche: string | null;
+  otherContact: string;
+  // Absent on analyses saved before prompts were versioned
+  prompt?: PromptRef;
+  // 2 when the model's first reply failed validation and the repair attempt fixed it
+  attempts?: number;
+};
+
+export type StageResult<T> =
+  { success: true; data: T } | { success: false; error: string };
+
+export type CacheStatus = "hit" | "miss" | "expired" | "bypass";
+
+export type CacheInfo = {
+  status: CacheStatus;
+  // Seconds since the cached entry was scraped; null when there wasn't one
+  ageSeconds: number | null;
+};
+
+export type ProfileStageResult = StageResult<ProfileData> & {
+  cache?: CacheInfo;
+  relatedAccounts?: RelatedProfile[];
+  upload?: {
+    success: boolean;
+    message: string | null;
+    key?: string;
+    url?: string;
+  };
+};
+
+export type ReelMetrics = {
+  sampleSize: number;
+  medianViews: number | null;
+  p90Views: number | null;
+  // Average likes + comments per reel as a percentage of followers
+  erFollowers: number | null;
+  followersCount: number | null;
+  // Posting cadence across the sample, from each reel's timestamp
+  postsPerWeek: number | null;
+  avgDaysBetweenPosts: number | null;
+  // Median of each reel's views per day since posting
+  medianViewsPerDay: number | null;
+};
+
+export type ReelsStageResult = StageResult<{
+  reels: Reel[];
+  er_avg: number | null;
+  reels_metrics: ReelMetrics;
+}>;
+
+// What the stage returns; the full website_data is saved on the lead, since a
+// large catalog outgrows the 1 MiB a workflow step may return
+export type WebsiteStageSummary = {
+  inputUrl: string;
+  pagesCount: number;
+  // Products in the storefront catalog; null for crawled sites
+  productCount: number | null;
+};
+
+export type WebsiteStageResult = StageResult<WebsiteStageSummary>;
+
+export type ApifyStageResult =
+  ProfileStageResult | ReelsStageResult | WebsiteStageResult;
+
+export type QualifyStageResult = StageResult<Qualification> & {
+  // Set when the profile came from the profile cache rather than the lead
+  cache?: CacheInfo;
+};
+
+export type LeadEnrichmentOutput = {
+  profile?: ProfileStageResult;
+  discovery?: DiscoveryResult;
+  reels?: ReelsStageResult;
+  website?: WebsiteStageResult;
+  ai?: StageResult<AiAnalysis> & { cached?: boolean };
+  qualify?: QualifyStageResult;
+};
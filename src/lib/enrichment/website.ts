@@ -0,0 +1,188 @@
+import {
+  ACTORS,
+  createApifyClient,
+  type WebsiteContentCrawlerInput,
+} from "@/lib/apify";
+import type {
+  WebsiteData,
+  WebsitePage,
+  WebsiteStageResult,
+} from "@/lib/enrichment/types";
+import { refreshLeadContacts } from "@/lib/enrichment/contacts";
+import { extractPrices } from "@/lib/enrichment/prices";
+import {
+  catalogPage,
+  fetchShopifyCatalog,
+  fetchStoreInfoPages,
+} from "@/lib/enrichment/storefront";
+import { createLeadRepository } from "@/lib/leads";
+
+export const WEBSITE_ACTOR_ID = ACTORS.websiteContentCrawler;
+
+const websiteStageResult = ({
+  inputUrl,
+  pagesCount,
+  catalog,
+}: WebsiteData): WebsiteStageResult => ({
+  success: true,
+  data: {
+    inputUrl,
+    pagesCount,
+    productCount: catalog ? catalog.products.length : null,
+  },
+});
+
+export const normalizeExternalUrl = (externalUrl: string) => {
+  const normalizedUrl = externalUrl.trim();
+  return normalizedUrl.startsWith("http")
+    ? normalizedUrl
+    : `https://${normalizedUrl}`;
+};
+
+// Prefer the storefront's /collections/ page, falling back to the root when it 404s
+export async function resolveStartUrl(externalUrl: string) {
+  const normalizedUrl = normalizeExternalUrl(externalUrl);
+  const rootUrl = normalizedUrl.endsWith("/")
+    ? normalizedUrl
+    : `${normalizedUrl}/`;
+
+  if (
+    rootUrl.includes("collections") ||
+    rootUrl.includes("shop") ||
+    rootUrl.includes("products")
+  ) {
+    return rootUrl;
+  }
+
+  const collectionsUrl = `${rootUrl}collections/`;
+  try {
+    const headRes = await fetch(collectionsUrl, { method: "HEAD" });
+    if (!headRes.ok) {
+      console.log(`/collections 404 for ${collectionsUrl}; fallback to root`);
+      return rootUrl;
+    }
+  } catch (headErr) {
+    console.warn("HEAD check failed; proceeding with /collections:", headErr);
+  }
+
+  return collectionsUrl;
+}
+
+export const buildWebsiteInput = (
+  startUrl: string,
+): WebsiteContentCrawlerInput => ({
+  startUrls: [{ url: startUrl }],
+  proxy: { useApifyProxy: true },
+  maxCrawlPages: 2,
+  maxCrawlDepth: 1,
+  saveMarkdown: false,
+  saveHtml: false,
+  saveScreenshots: false,
+  blockMedia: true,
+  removeElementsCssSelector:
+    'nav, footer, script, style, noscript, svg, img[src^=\'data:\'], [role="alert"], [role="banner"], [role="dialog"], [role="alertdialog"], [role="region"][aria-label*="skip" i], [aria-modal="true"]',
+  htmlTransformer: "none",
+});
+
+export const extractWebsiteData = (
+  externalUrl: string,
+  results: any[],
+): WebsiteData => {
+  const allPages: WebsitePage[] = results.map((page) => ({
+    url: page.url || page["#url"] || "",
+    loadedUrl: page.crawl?.loadedUrl || page.url,
+    depth: page.crawl?.depth || 0,
+    title: page.metadata?.title || "",
+    description: page.metadata?.description || "",
+    author: page.metadata?.author || null,
+    keywords: page.metadata?.keywords || null,
+    language: page.metadata?.languageCode || "en",
+    text: page.text || page["#text"] || "",
+    markdown: page.markdown || page["#markdown"] || "",
+    screenshotUrl: page.screenshotUrl || null,
+  }));
+
+  return {
+    inputUrl: externalUrl,
+    pagesCount: allPages.length,
+    primary: allPages.find((p) => p.depth === 0) || allPages[0],
+    allPages,
+  };
+};
+
+/**
+ * Serves the website stage from a recognised storefront's structured
+ * catalog. Returns null when the site isn't one, so the caller crawls it.
+ */
+export async function loadCatalogWebsiteStage(
+  env: Env,
+  { externalUrl, leadId }: { externalUrl: string; leadId?: string },
+): Promise<WebsiteStageResult | null> {
+  const catalog = await fetchShopifyCatalog(normalizeExternalUrl(externalUrl));
+  if (!catalog) return null;
+
+  const primary = catalogPage(catalog);
+  const allPages = [primary, ...(await fetchStoreInfoPages(catalog.storeUrl))];
+  const website_data: WebsiteData = {
+    inputUrl: externalUrl,
+    pagesCount: allPages.length,
+    primary,
+    allPages,
+    catalog,
+  };
+  website_data.prices = extractPrices(website_data);
+
+  if (leadId) {
+    await createLeadRepository(env).updateStageResult(leadId, "website", {
+      website_data,
+      has_website: true,
+    });
+    await refreshLeadContacts(env, leadId);
+    console.log(
+      `Cached Shopify catalog for lead ${leadId}: ${catalog.products.length} products`,
+    );
+  }
+
+  return websiteStageResult(website_data);
+}
+
+export async function skipWebsiteStage(
+  env: Env,
+  leadId: string | undefined,
+  error: string,
+): Promise<WebsiteStageResult> {
+  if (leadId) {
+    await createLeadRepository(env).markStageSkipped(leadId, "website", error);
+    // Contacts found on the old website no longer apply
+    await refreshLeadContacts(env, leadId);
+  }
+  return { success: false, error };
+}
+
+export async function completeWebsiteStage(
+  env: Env,
+  { externalUrl, leadId }: { externalUrl: string; leadId?: string },
+  datasetId: string,
+): Promise<WebsiteStageResult> {
+  const results = await createApifyClient(env).listDatasetItems(datasetId);
+
+  if (results.length === 0) {
+    return skipWebsiteStage(env, leadId, "No pages scraped—website skipped");
+  }
+
+  const website_data = extractWebsiteData(externalUrl, results);
+  website_data.prices = extractPrices(website_data);
+
+  if (leadId) {
+    await createLeadRepository(env).updateStageResult(leadId, "website", {
+      website_data,
+      has_website: true,
+    });
+    await refreshLeadContacts(env, leadId);
+    console.log(
+      `Cached website_data for lead ${leadId}: ${website_data.pagesCount} pages`,
+    );
+  }
+
+  return websiteStageResult(website_data);
+}
@@ -0,0 +1,141 @@
+import type { WebsiteData, WebsiteSummaryRecord } from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+import {
+  completeWithSchema,
+  createLlmClient,
+  llmCostUsd,
+  type LlmUsage,
+} from "@/lib/llm";
+import {
+  loadActivePrompt,
+  promptRef,
+  renderPrompt,
+  websiteSummarySchema,
+} from "@/lib/prompts";
+
+export type WebsiteSummaryResult =
+  | (WebsiteSummaryRecord & {
+      success: true;
+      cached: boolean;
+      // Tokens reported for the final attempt; null when served from the cache
+      usage: (LlmUsage & { costUsd: number | null }) | null;
+    })
+  | { success: false; error: string };
+
+// Prompt values: the primary page trimmed to ~4K characters plus short excerpts of two sub-pages
+export const buildSummaryInput = (scrapedData: WebsiteData) => {
+  const primaryContent =
+    scrapedData.primary?.markdown || scrapedData.primary?.text || "";
+  let content =
+    primaryContent.length > 4000
+      ? primaryContent.substring(0, 4000) +
+        "\n\n[Truncated for brevity; full site scraped if needed]"
+      : primaryContent;
+
+  if (scrapedData.allPages && scrapedData.allPages.length > 1) {
+    const secondaryTexts = scrapedData.allPages
+      .filter((page) => page.depth > 0)
+      .slice(0, 2)
+      .map((page) => page.text?.substring(0, 500) || "")
+      .join("\n\n--- Sub-page ---\n\n");
+    content += `\n\nAdditional pages context:\n${secondaryTexts}`;
+  }
+
+  return {
+    url: scrapedData.inputUrl,
+    title: scrapedData.primary?.title || "N/A",
+    description: scrapedData.primary?.description || "N/A",
+    content,
+  };
+};
+
+const hashInput = async (input: Record<string, string>) => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(input)),
+  );
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Summarizes the given scrape, or the lead's stored website_data when there is none.
+// With a lead, the summary is stored on it and reused while the content hash and the
+// active prompt version match.
+export async function runWebsiteSummary(
+  env: Env,
+  {
+    scrapedData,
+    leadId,
+    force = false,
+  }: { scrapedData?: WebsiteData; leadId?: string; force?: boolean },
+): Promise<WebsiteSummaryResult> {
+  const leads = createLeadRepository(env);
+  const lead = leadId
+    ? await leads.getLead(leadId, ["website_data", "website_summary"])
+    : null;
+
+  const websiteData = scrapedData ?? lead?.website_data;
+  if (!websiteData) {
+    return {
+      success: false,
+      error: "No website data—pass scrapedData or run website_run first",
+    };
+  }
+
+  const input = buildSummaryInput(websiteData);
+  const contentHash = await hashInput(input);
+
+  // A summary made with another prompt version is stale even if the site isn't
+  const template = await loadActivePrompt(env, "website-summary");
+  const stored = lead?.website_summary;
+  if (
+    !force &&
+    stored?.contentHash === contentHash &&
+    stored.prompt?.name === template.name &&
+    stored.prompt.version === template.version
+  ) {
+    return { success: true, ...stored, cached: true, usage: null };
+  }
+
+  const prompt = renderPrompt(template, input);
+
+  // Validated against the schema; an invalid reply gets one repair attempt
+  const { data, model, attempts, usage } = await completeWithSchema(
+    createLlmClient(env, { route: "concise_run", leadId }),
+    {
+      task: "website-summary",
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: prompt.user },
+      ],
+      maxTokens: 500,
+      temperature: 0.3,
+    },
+    websiteSummarySchema,
+  );
+
+  const record: WebsiteSummaryRecord = {
+    contentHash,
+    summary: data,
+    prompt: promptRef(template, model),
+    attempts,
+    generatedAt: new Date().toISOString(),
+  };
+
+  if (leadId) {
+    // Not a stage of its own, so the website stage's status stays as it is
+    await leads.updateLead(leadId, { website_summary: record });
+  }
+
+  console.log(
+    `Generated summary for ${websiteData.inputUrl}: Industry=${data.industry}`,
+  );
+
+  return {
+    success: true,
+    ...record,
+    cached: false,
+    usage: usage && { ...usage, costUsd: llmCostUsd(model, usage) },
+  };
+}
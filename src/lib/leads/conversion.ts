@@ -0,0 +1,150 @@
+import { createLeadRepository, LeadNotFoundError } from "@/lib/leads";
+import type { Lead } from "@/lib/services/lead";
+import { CustomerService } from "@/lib/services/customer";
+import { CustomerSubscriptionService } from "@/lib/services/customer_subscription";
+import { SubscriptionService } from "@/lib/services/subscription";
+
+// customers.notes is a VARCHAR(255)
+const MAX_NOTES_LENGTH = 255;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+
+export class LeadConversionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LeadConversionError";
+    this.status = status;
+  }
+}
+
+export type LeadConversionOptions = {
+  // Overrides the email found in the lead's contact details
+  email?: string;
+  // Defaults to the lead's username
+  name?: string;
+  // Plan to assign the new customer
+  subscriptionId?: number;
+};
+
+const findEmail = (...texts: (string | null | undefined)[]) => {
+  for (const text of texts) {
+    const match = text?.match(EMAIL_PATTERN);
+    if (match) return match[0].toLowerCase();
+  }
+  return null;
+};
+
+/**
+ * The lead's email: the first one in its validated contacts, which include
+ * those found on its website, else one in the AI's otherContact or the bio.
+ */
+export const findLeadEmail = ({
+  contacts,
+  openai,
+  raw_data,
+}: Pick<Lead, "contacts" | "openai" | "raw_data">) =>
+  contacts?.find((contact) => contact.kind === "email")?.value ??
+  findEmail(openai?.otherContact, raw_data?.biography);
+
+const buildNotes = (
+  username: string,
+  biography: string | null | undefined,
+  otherContact: string | null | undefined,
+) =>
+  [
+    `Converted from lead @${username}`,
+    otherContact && `Contact: ${otherContact}`,
+    biography && `Bio: ${biography}`,
+  ]
+    .filter(Boolean)
+    .join(". ")
+    .substring(0, MAX_NOTES_LENGTH);
+
+/**
+ * Creates a customer from a lead's contact data, optionally assigns a plan,
+ * and links the two records: customers.lead_id and the lead's customer_id.
+ */
+export async function convertLeadToCustomer(
+  env: Env,
+  leadId: string,
+  { email, name, subscriptionId }: LeadConversionOptions = {},
+) {
+  const leads = createLeadRepository(env);
+  const lead = await leads
+    .getLead(leadId, [
+      "username",
+      "raw_data",
+      "openai",
+      "contacts",
+      "customer_id",
+    ])
+    .catch((err) => {
+      if (err instanceof LeadNotFoundError) {
+        throw new LeadConversionError("Lead not found", 404);
+      }
+      throw err;
+    });
+
+  const customerService = new CustomerService(env.DB);
+  const existing = await customerService.getByLeadId(leadId);
+  if (existing || lead.customer_id) {
+    // Repair the lead's side of the link if an earlier conversion didn't finish
+    if (existing && lead.customer_id !== existing.id) {
+      await leads.updateLead(leadId, { customer_id: existing.id });
+    }
+    throw new LeadConversionError(
+      `Lead was already converted into customer ${existing?.id ?? lead.customer_id}`,
+      409,
+    );
+  }
+
+  const biography = lead.raw_data?.biography;
+  const otherContact = lead.openai?.otherContact;
+  const customerEmail = email || findLeadEmail(lead);
+  if (!customerEmail) {
+    throw new LeadConversionError(
+      "No email found in the lead's contact details; pass one",
+      422,
+    );
+  }
+
+  if (subscriptionId !== undefined) {
+    const subscription = await new SubscriptionService(env.DB).getById(
+      subscriptionId,
+    );
+    if (!subscription) {
+      throw new LeadConversionError(`Unknown subscription: ${subscriptionId}`);
+    }
+  }
+
+  const { customerId } = await customerService
+    .create({
+      name: name || lead.username,
+      email: customerEmail,
+      notes: buildNotes(lead.username, biography, otherContact),
+      leadId,
+    })
+    .catch(async (err) => {
+      // A concurrent conversion of the same lead got past the check above
+      // first; idx_customers_lead_id stops the second customer
+      if (!/UNIQUE constraint failed/.test(err.message)) throw err;
+      const winner = await customerService.getByLeadId(leadId);
+      throw new LeadConversionError(
+        `Lead was already converted into customer ${winner?.id}`,
+        409,
+      );
+    });
+
+  let customerSubscriptionId: number | null = null;
+  if (subscriptionId !== undefined) {
+    ({ customerSubscriptionId } = await new CustomerSubscriptionService(
+      env.DB,
+    ).create({ customer_id: customerId, subscription_id: subscriptionId }));
+  }
+
+  await leads.updateLead(leadId, { customer_id: customerId });
+
+  return { customerId, customerSubscriptionId, email: customerEmail };
+}
@@ -0,0 +1,75 @@
+import type { LeadListOptions } from "@/lib/leads/filters";
+import {
+  BaseLeadRepository,
+  DuplicateLeadError,
+  LeadNotFoundError,
+  pickColumns,
+} from "@/lib/leads/repository";
+import { LeadService, type Lead, type LeadFields } from "@/lib/services/lead";
+
+export class D1LeadRepository extends BaseLeadRepository {
+  private leadService: LeadService;
+
+  constructor(DB: D1Database) {
+    super();
+    this.leadService = new LeadService(DB);
+  }
+
+  async createLead(username: string, fields: LeadFields = {}) {
+    try {
+      const { leadId } = await this.leadService.create({
+        ...fields,
+        username,
+      });
+      return leadId;
+    } catch (err: any) {
+      if (/UNIQUE constraint failed/.test(err.message)) {
+        throw new DuplicateLeadError(username);
+      }
+      throw err;
+    }
+  }
+
+  createLeads(usernames: string[]) {
+    return this.leadService.createMany(usernames);
+  }
+
+  findExistingUsernames(usernames: string[]) {
+    return this.leadService.getExistingUsernames(usernames);
+  }
+
+  async findLeadId(username: string) {
+    const lead = await this.leadService.getByUsername(username);
+    return lead?.id ?? null;
+  }
+
+  async getLead<K extends keyof Lead>(leadId: string, columns: K[]) {
+    const lead = await this.leadService.getById(leadId);
+    if (!lead) {
+      throw new LeadNotFoundError(leadId);
+    }
+    return pickColumns(lead, columns);
+  }
+
+  async listLeads<K extends keyof Lead>(
+    columns: K[],
+    options?: LeadListOptions,
+  ) {
+    const leads = await this.leadService.getAll(options);
+    return leads.map((lead) => pickColumns(lead, columns));
+  }
+
+  async updateLead(leadId: string, fields: LeadFields) {
+    try {
+      await this.leadService.update(leadId, fields);
+    } catch (err: any) {
+      console.error(`D1 update error (${leadId}):`, err);
+      throw new Error(`Cache failed: ${err.message}`);
+    }
+  }
+
+  async deleteLead(leadId: string) {
+    const { deleted } = await this.leadService.delete(leadId);
+    return deleted;
+  }
+}
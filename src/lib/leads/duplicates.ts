@@ -0,0 +1,192 @@
+import { ENRICHMENT_STAGES } from "@/lib/enrichment/types";
+import {
+  createLeadRepository,
+  stageStatusOf,
+  type LeadCursor,
+} from "@/lib/leads";
+import { normalizeHandle } from "@/lib/leads/handles";
+import { LeadMergeService } from "@/lib/services/lead_merge";
+import type { Lead, LeadFields } from "@/lib/services/lead";
+
+const SUMMARY_COLUMNS = [
+  "id",
+  "username",
+  "customer_id",
+  "profile_status",
+  "reels_status",
+  "website_status",
+  "ai_status",
+  "qualify_status",
+  "created_at",
+] satisfies (keyof Lead)[];
+
+// Copied from a duplicate onto the kept lead when the kept lead has none
+const MERGED_COLUMNS = [
+  "raw_data",
+  "profile_picture_key",
+  "profile_picture_url",
+  "reels",
+  "reels_metrics",
+  "er_avg",
+  "has_reels",
+  "website_data",
+  "has_website",
+  "website_summary",
+  "openai",
+  "ai_analysis_complete",
+  "qualification",
+  "qualification_score",
+  "qualification_tier",
+  "contacts",
+  "seed_lead_id",
+  "discovery_depth",
+  "customer_id",
+  "profile_status",
+  "reels_status",
+  "website_status",
+  "ai_status",
+  "qualify_status",
+] satisfies (keyof LeadFields)[];
+
+// PostgREST caps a response at about 1000 rows, so read the leads in pages
+const SCAN_PAGE_SIZE = 500;
+
+type LeadSummary = Pick<Lead, (typeof SUMMARY_COLUMNS)[number]>;
+
+export type DuplicateLeadGroup = {
+  // The canonical handle the leads share
+  handle: string;
+  // The lead a merge keeps first, then the others oldest first
+  leads: LeadSummary[];
+};
+
+export class LeadMergeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LeadMergeError";
+    this.status = status;
+  }
+}
+
+// Usernames that aren't valid handles still group by their lowercased form
+const handleOf = (username: string) =>
+  normalizeHandle(username) ?? username.trim().replace(/^@+/, "").toLowerCase();
+
+const succeededStages = (lead: LeadSummary) =>
+  ENRICHMENT_STAGES.filter(
+    (stage) => stageStatusOf(lead, stage).status === "succeeded",
+  ).length;
+
+/**
+ * Orders a group so the lead to keep comes first: the one linked to a
+ * customer, else the most enriched, else the oldest.
+ */
+const byMergePriority = (a: LeadSummary, b: LeadSummary) =>
+  Number(b.customer_id !== null) - Number(a.customer_id !== null) ||
+  succeededStages(b) - succeededStages(a) ||
+  a.created_at.localeCompare(b.created_at);
+
+// Leads whose usernames share a canonical handle, largest groups first
+export async function findDuplicateLeads(
+  env: Env,
+): Promise<DuplicateLeadGroup[]> {
+  const leads = createLeadRepository(env);
+
+  const groups = new Map<string, LeadSummary[]>();
+  let after: LeadCursor | undefined;
+  for (;;) {
+    const page = await leads.listLeads(SUMMARY_COLUMNS, {
+      limit: SCAN_PAGE_SIZE,
+      after,
+    });
+    for (const lead of page) {
+      const handle = handleOf(lead.username);
+      groups.set(handle, [...(groups.get(handle) ?? []), lead]);
+    }
+    if (page.length < SCAN_PAGE_SIZE) break;
+    const last = page[page.length - 1];
+    after = { created_at: last.created_at, id: last.id };
+  }
+
+  return [...groups]
+    .filter(([, group]) => group.length > 1)
+    .map(([handle, group]) => ({ handle, leads: group.sort(byMergePriority) }))
+    .sort(
+      (a, b) =>
+        b.leads.length - a.leads.length || a.handle.localeCompare(b.handle),
+    );
+}
+
+/**
+ * Merges every lead sharing a handle into one. The kept lead takes any field
+ * it's missing from the others, newest first, and the canonical handle as its
+ * username. Discovered leads, Apify runs, batch items, reels snapshots, LLM
+ * usage and customers pointing at a removed lead move to the kept one.
+ */
+export async function mergeDuplicateLeads(env: Env, handle: string) {
+  const group = (await findDuplicateLeads(env)).find(
+    (group) => group.handle === handle,
+  );
+  if (!group) {
+    throw new LeadMergeError("No duplicate leads for this handle", 404);
+  }
+
+  const customers = new Set(
+    group.leads.map((lead) => lead.customer_id).filter((id) => id !== null),
+  );
+  if (customers.size > 1) {
+    throw new LeadMergeError(
+      "These leads were converted into different customers; merge the customers first",
+      409,
+    );
+  }
+
+  const [primary, ...duplicates] = group.leads;
+  const duplicateIds = duplicates.map((lead) => lead.id);
+  const mergedIds = [primary.id, ...duplicateIds];
+  const leads = createLeadRepository(env);
+
+  const kept = await leads.getLead(primary.id, MERGED_COLUMNS);
+  const fields: LeadFields = {};
+  const newestFirst = [...duplicates].sort((a, b) =>
+    b.created_at.localeCompare(a.created_at),
+  );
+  for (const duplicate of newestFirst) {
+    const lead = await leads.getLead(duplicate.id, MERGED_COLUMNS);
+    for (const column of MERGED_COLUMNS) {
+      if (kept[column] === null && fields[column] == null) {
+        Object.assign(fields, { [column]: lead[column] });
+      }
+    }
+  }
+  // A lead can't be its own seed
+  const seedLeadId = fields.seed_lead_id ?? kept.seed_lead_id;
+  if (seedLeadId && mergedIds.includes(seedLeadId)) {
+    fields.seed_lead_id = null;
+    fields.discovery_depth = null;
+  }
+
+  // The duplicates are only deleted once everything they held lives on the
+  // kept lead, so a failure part way leaves a retryable merge, not lost data
+  await leads.updateLead(primary.id, fields);
+  await new LeadMergeService(env.DB).reassign(duplicateIds, primary.id);
+  for (const duplicateId of duplicateIds) {
+    const discovered = await leads.listLeads(["id"], {
+      filters: { seedLeadId: duplicateId },
+    });
+    for (const { id } of discovered) {
+      if (mergedIds.includes(id)) continue;
+      await leads.updateLead(id, { seed_lead_id: primary.id });
+    }
+  }
+
+  for (const duplicateId of duplicateIds) {
+    await leads.deleteLead(duplicateId);
+  }
+  // Last, since a duplicate may hold the canonical username until it's deleted
+  await leads.updateLead(primary.id, { username: group.handle });
+
+  return { leadId: primary.id, handle, removed: duplicateIds };
+}
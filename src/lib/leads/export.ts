@@ -0,0 +1,234 @@
+import { fromMinorUnits } from "@/lib/enrichment/prices";
+import type { ContactKind, EnrichmentStage } from "@/lib/enrichment/types";
+import {
+  LeadQueryError,
+  type LeadCursor,
+  type LeadFilters,
+} from "@/lib/leads/filters";
+import type { LeadRepository } from "@/lib/leads/repository";
+import type { Lead } from "@/lib/services/lead";
+
+// website_data holds every scraped page, so keep pages small
+export const EXPORT_PAGE_SIZE = 50;
+
+export const EXPORT_FORMATS = ["csv", "jsonl"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+type ExportValue = string | number | boolean | null;
+
+type ExportColumn = {
+  // Lead columns the value is read from
+  source: (keyof Lead)[];
+  value: (lead: Partial<Lead>) => ExportValue;
+};
+
+const priceBound = (lead: Partial<Lead>, bound: "minMinor" | "maxMinor") => {
+  const prices = lead.website_data?.prices;
+  const amount = prices?.[bound];
+  return prices?.currency && amount != null
+    ? fromMinorUnits(amount, prices.currency)
+    : null;
+};
+
+// Every extracted contact of one kind in a single cell
+const contactColumn = (kind: ContactKind): ExportColumn => ({
+  source: ["contacts"],
+  value: (lead) =>
+    (lead.contacts ?? [])
+      .filter((contact) => contact.kind === kind)
+      .map((contact) => contact.value)
+      .join("; ") || null,
+});
+
+const stageColumn = (stage: EnrichmentStage): ExportColumn => ({
+  source: [`${stage}_status`],
+  value: (lead) => lead[`${stage}_status`]?.status ?? "pending",
+});
+
+// Nested enrichment fields flattened into one column each, in export order
+export const EXPORT_COLUMNS = {
+  id: { source: ["id"], value: (lead) => lead.id ?? null },
+  username: { source: ["username"], value: (lead) => lead.username ?? null },
+  followers: {
+    source: ["raw_data"],
+    value: (lead) => lead.raw_data?.followersCount ?? null,
+  },
+  verified: {
+    source: ["raw_data"],
+    value: (lead) => lead.raw_data?.verified ?? null,
+  },
+  private: {
+    source: ["raw_data"],
+    value: (lead) => lead.raw_data?.restricted ?? null,
+  },
+  biography: {
+    source: ["raw_data"],
+    value: (lead) => lead.raw_data?.biography ?? null,
+  },
+  external_url: {
+    source: ["raw_data"],
+    value: (lead) => lead.raw_data?.externalUrl ?? null,
+  },
+  profile_picture_url: {
+    source: ["profile_picture_url"],
+    value: (lead) => lead.profile_picture_url ?? null,
+  },
+  er_avg: { source: ["er_avg"], value: (lead) => lead.er_avg ?? null },
+  has_reels: { source: ["has_reels"], value: (lead) => lead.has_reels ?? null },
+  has_website: {
+    source: ["has_website"],
+    value: (lead) => lead.has_website ?? null,
+  },
+  website_url: {
+    source: ["website_data", "raw_data"],
+    value: (lead) =>
+      lead.website_data?.inputUrl ?? lead.raw_data?.externalUrl ?? null,
+  },
+  niche: { source: ["openai"], value: (lead) => lead.openai?.niche ?? null },
+  summary: {
+    source: ["openai"],
+    value: (lead) => lead.openai?.summary ?? null,
+  },
+  other_contact: {
+    source: ["openai"],
+    value: (lead) => lead.openai?.otherContact || null,
+  },
+  emails: contactColumn("email"),
+  phones: contactColumn("phone"),
+  price_currency: {
+    source: ["website_data"],
+    value: (lead) => lead.website_data?.prices?.currency ?? null,
+  },
+  price_min: {
+    source: ["website_data"],
+    value: (lead) => priceBound(lead, "minMinor"),
+  },
+  price_max: {
+    source: ["website_data"],
+    value: (lead) => priceBound(lead, "maxMinor"),
+  },
+  qualification_score: {
+    source: ["qualification_score"],
+    value: (lead) => lead.qualification_score ?? null,
+  },
+  qualification_tier: {
+    source: ["qualification_tier"],
+    value: (lead) => lead.qualification_tier ?? null,
+  },
+  profile_status: stageColumn("profile"),
+  reels_status: stageColumn("reels"),
+  website_status: stageColumn("website"),
+  ai_status: stageColumn("ai"),
+  qualify_status: stageColumn("qualify"),
+  customer_id: {
+    source: ["customer_id"],
+    value: (lead) => lead.customer_id ?? null,
+  },
+  created_at: {
+    source: ["created_at"],
+    value: (lead) => lead.created_at ?? null,
+  },
+  updated_at: {
+    source: ["updated_at"],
+    value: (lead) => lead.updated_at ?? null,
+  },
+} satisfies Record<string, ExportColumn>;
+
+export type ExportColumnName = keyof typeof EXPORT_COLUMNS;
+
+const isExportColumn = (name: string): name is ExportColumnName =>
+  Object.hasOwn(EXPORT_COLUMNS, name);
+
+// Comma-separated column names; every column when the parameter is missing
+export const parseExportColumns = (param: string | null) => {
+  if (!param) return Object.keys(EXPORT_COLUMNS) as ExportColumnName[];
+
+  const names = param
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter((name) => !isExportColumn(name));
+  if (unknown.length || !names.length) {
+    throw new LeadQueryError(
+      `Unknown columns: ${unknown.join(", ") || "(none given)"}`,
+    );
+  }
+  return [...new Set(names)] as ExportColumnName[];
+};
+
+export const parseExportFormat = (param: string | null): ExportFormat => {
+  const format = param ?? "csv";
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new LeadQueryError(
+      `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+    );
+  }
+  return format as ExportFormat;
+};
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return "";
+  if (typeof value !== "string") return String(value);
+
+  // Keep spreadsheets from evaluating scraped text as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: ExportValue[]) =>
+  `${values.map(csvCell).join(",")}\r\n`;
+
+/**
+ * Streams the matching leads page by page, so only EXPORT_PAGE_SIZE leads
+ * are held in memory at a time.
+ */
+export function streamLeadExport(
+  leads: LeadRepository,
+  {
+    format,
+    columns,
+    filters,
+  }: {
+    format: ExportFormat;
+    columns: ExportColumnName[];
+    filters: LeadFilters;
+  },
+) {
+  const encoder = new TextEncoder();
+  // id and created_at are the paging cursor
+  const source = [
+    ...new Set([
+      "id" as const,
+      "created_at" as const,
+      ...columns.flatMap((name) => EXPORT_COLUMNS[name].source),
+    ]),
+  ];
+  let after: LeadCursor | undefined;
+
+  const serialize = (lead: Partial<Lead>) => {
+    const values = columns.map((name) => EXPORT_COLUMNS[name].value(lead));
+    return format === "csv"
+      ? csvRow(values)
+      : `${JSON.stringify(Object.fromEntries(columns.map((name, i) => [name, values[i]])))}\n`;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") controller.enqueue(encoder.encode(csvRow(columns)));
+    },
+    async pull(controller) {
+      const page = await leads.listLeads(source, {
+        filters,
+        limit: EXPORT_PAGE_SIZE,
+        after,
+      });
+      const last = page[page.length - 1];
+      if (last) after = { created_at: last.created_at, id: last.id };
+
+      if (page.length) {
+        controller.enqueue(encoder.encode(page.map(serialize).join("")));
+      }
+      if (page.length < EXPORT_PAGE_SIZE) controller.close();
+    },
+  });
+}
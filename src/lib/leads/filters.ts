@@ -0,0 +1,96 @@
+import type { Lead } from "@/lib/services/lead";
+
+// Query-string filters shared by GET /api/leads, the Leads admin page and the export
+export type LeadFilters = {
+  // Case-insensitive substring of the username
+  username?: string;
+  tier?: string;
+  minScore?: number;
+  hasWebsite?: boolean;
+  seedLeadId?: string;
+  // Whether the lead has been converted into a customer
+  converted?: boolean;
+};
+
+// Where the previous page ended, in the newest-first order
+export type LeadCursor = { created_at: string; id: string };
+
+export type LeadListOptions = {
+  filters?: LeadFilters;
+  limit?: number;
+  offset?: number;
+  // Keyset paging: leads after this one. Unlike offset, leads created while
+  // paging don't shift later pages
+  after?: LeadCursor;
+};
+
+// Newest first, ties broken by id; the order every backend lists leads in
+export const isAfterCursor = (
+  lead: { created_at: string; id: string },
+  cursor?: LeadCursor,
+) =>
+  !cursor ||
+  lead.created_at < cursor.created_at ||
+  (lead.created_at === cursor.created_at && lead.id > cursor.id);
+
+// A query parameter couldn't be parsed; routes answer with 400
+export class LeadQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeadQueryError";
+  }
+}
+
+const parseBoolean = (name: string, value: string) => {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  throw new LeadQueryError(`${name} must be true or false`);
+};
+
+export const parseLeadFilters = (params: URLSearchParams): LeadFilters => {
+  const filters: LeadFilters = {};
+
+  const username = params.get("username")?.trim();
+  if (username) filters.username = username;
+
+  const tier = params.get("tier")?.trim();
+  if (tier) filters.tier = tier;
+
+  const minScore = params.get("minScore");
+  if (minScore) {
+    filters.minScore = Number(minScore);
+    if (!Number.isFinite(filters.minScore)) {
+      throw new LeadQueryError("minScore must be a number");
+    }
+  }
+
+  const hasWebsite = params.get("hasWebsite");
+  if (hasWebsite) filters.hasWebsite = parseBoolean("hasWebsite", hasWebsite);
+
+  const seedLeadId = params.get("seedLeadId");
+  if (seedLeadId) filters.seedLeadId = seedLeadId;
+
+  const converted = params.get("converted");
+  if (converted) filters.converted = parseBoolean("converted", converted);
+
+  return filters;
+};
+
+// In-memory equivalent of the SQL and Supabase filters
+export const matchesLeadFilters = (lead: Lead, filters: LeadFilters = {}) =>
+  (filters.username === undefined ||
+    lead.username.toLowerCase().includes(filters.username.toLowerCase())) &&
+  (filters.tier === undefined || lead.qualification_tier === filters.tier) &&
+  (filters.minScore === undefined ||
+    (lead.qualification_score !== null &&
+      lead.qualification_score >= filters.minScore)) &&
+  (filters.hasWebsite === undefined ||
+    lead.has_website === filters.hasWebsite) &&
+  (filters.seedLeadId === undefined ||
+    lead.seed_lead_id === filters.seedLeadId) &&
+  (filters.converted === undefined ||
+    (lead.customer_id !== null) === filters.converted);
+
+// Escapes LIKE wildcards so a username filter matches literally
+export const likePattern = (value: string) =>
+  `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
@@ -0,0 +1,67 @@
+// 1–30 letters, digits, periods and underscores; no leading, trailing or doubled periods
+const HANDLE_PATTERN = /^(?!\.)(?!.*\.\.)(?!.*\.$)[a-z0-9._]{1,30}$/;
+
+const INSTAGRAM_HOSTS = /^(?:www\.|m\.)?(?:instagram\.com|instagr\.am)$/;
+
+// First path segments that belong to a post, reel or page rather than a profile
+const RESERVED_PATHS = new Set([
+  "p",
+  "reel",
+  "reels",
+  "tv",
+  "explore",
+  "stories",
+  "accounts",
+  "direct",
+]);
+
+export type HandleParseResult =
+  { success: true; username: string } | { success: false; error: string };
+
+const profilePathHandle = (url: URL): HandleParseResult => {
+  const [segment] = url.pathname.split("/").filter(Boolean);
+  if (!segment || RESERVED_PATHS.has(segment.toLowerCase())) {
+    return { success: false, error: "Not an Instagram profile URL" };
+  }
+  return { success: true, username: segment };
+};
+
+/**
+ * Reads an Instagram handle from "handle", "@handle" or a profile URL such
+ * as "https://www.instagram.com/handle/?igsh=...", lowercased and checked
+ * against Instagram's handle rules.
+ */
+export const parseInstagramHandle = (input: string): HandleParseResult => {
+  let value = input.trim();
+  if (!value) return { success: false, error: "Empty handle" };
+
+  if (/instagr(?:\.am|am\.com)/i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    } catch {
+      return { success: false, error: "Invalid URL" };
+    }
+    if (!INSTAGRAM_HOSTS.test(url.hostname.toLowerCase())) {
+      return { success: false, error: "Not an Instagram URL" };
+    }
+    const result = profilePathHandle(url);
+    if (!result.success) return result;
+    value = result.username;
+  }
+
+  const username = value.replace(/^@+/, "").toLowerCase();
+  if (!HANDLE_PATTERN.test(username)) {
+    return {
+      success: false,
+      error: `Invalid Instagram handle: ${input.trim()}`,
+    };
+  }
+  return { success: true, username };
+};
+
+// The canonical handle leads, cache keys and Apify inputs use; null when invalid
+export const normalizeHandle = (input: string) => {
+  const result = parseInstagramHandle(input);
+  return result.success ? result.username : null;
+};
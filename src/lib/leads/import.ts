@@ -0,0 +1,135 @@
+import { parseCsv } from "@/lib/csv";
+import { parseInstagramHandle } from "@/lib/leads/handles";
+import type { LeadRepository } from "@/lib/leads/repository";
+
+// Rows one import may hold; creating a lead is a write per row
+export const MAX_IMPORT_ROWS = 2000;
+
+// Header names recognised as the handle column, lowercased
+const HANDLE_HEADERS = [
+  "username",
+  "handle",
+  "instagram",
+  "instagram_handle",
+  "instagram url",
+  "instagram_url",
+  "profile",
+  "profile_url",
+  "url",
+];
+
+export class LeadImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeadImportError";
+  }
+}
+
+export type ImportRowStatus = "created" | "duplicate" | "invalid";
+
+export type ImportRow = {
+  // Line number in the file, counting the header
+  row: number;
+  input: string;
+  status: ImportRowStatus;
+  username?: string;
+  leadId?: string;
+  // Why the row is invalid, or what it duplicates
+  reason?: string;
+};
+
+export type ImportReport = {
+  rows: ImportRow[];
+  created: number;
+  duplicates: number;
+  invalid: number;
+};
+
+// The handle column and whether the first row is a header naming it
+const findHandleColumn = (rows: string[][]) => {
+  const header = (rows[0] ?? []).map((cell) => cell.trim().toLowerCase());
+  const index = header.findIndex((cell) => HANDLE_HEADERS.includes(cell));
+  return index === -1
+    ? { column: 0, hasHeader: false }
+    : { column: index, hasHeader: true };
+};
+
+/**
+ * Creates a pending lead for each valid handle in the CSV that isn't a lead
+ * yet. Handles are read from a column named like "username" or "url", else
+ * from the first column. Every non-blank row gets a line in the report.
+ */
+export async function importLeadsCsv(
+  leads: LeadRepository,
+  csv: string,
+  { maxRows = MAX_IMPORT_ROWS }: { maxRows?: number } = {},
+): Promise<ImportReport> {
+  const rows = parseCsv(csv);
+  const { column, hasHeader } = findHandleColumn(rows);
+
+  const dataRows = rows.length - (hasHeader ? 1 : 0);
+  if (dataRows > maxRows) {
+    throw new LeadImportError(
+      `The file has ${dataRows} rows; an import can hold at most ${maxRows}`,
+    );
+  }
+
+  const report: ImportRow[] = [];
+  const firstRowByUsername = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    if (hasHeader && index === 0) return;
+    const input = (cells[column] ?? "").trim();
+    if (!input && cells.every((cell) => !cell.trim())) return;
+
+    const row = index + 1;
+    const parsed = parseInstagramHandle(input);
+    if (!parsed.success) {
+      report.push({ row, input, status: "invalid", reason: parsed.error });
+      return;
+    }
+
+    const { username } = parsed;
+    const firstRow = firstRowByUsername.get(username);
+    if (firstRow !== undefined) {
+      report.push({
+        row,
+        input,
+        status: "duplicate",
+        username,
+        reason: `Same handle as row ${firstRow}`,
+      });
+      return;
+    }
+    firstRowByUsername.set(username, row);
+    report.push({ row, input, status: "created", username });
+  });
+
+  const existing = await leads.findExistingUsernames([
+    ...firstRowByUsername.keys(),
+  ]);
+  const created = await leads.createLeads(
+    [...firstRowByUsername.keys()].filter(
+      (username) => !existing.has(username),
+    ),
+  );
+  for (const entry of report) {
+    if (entry.status !== "created") continue;
+
+    // Not created: it existed already, or another request created it meanwhile
+    entry.leadId = created.get(entry.username!);
+    if (!entry.leadId) {
+      entry.status = "duplicate";
+      entry.reason = "Lead already exists";
+    }
+  }
+
+  const count = (status: ImportRowStatus) =>
+    report.filter((entry) => entry.status === status).length;
+  return {
+    rows: report,
+    created: count("created"),
+    duplicates: count("duplicate"),
+    invalid: count("invalid"),
+  };
+}
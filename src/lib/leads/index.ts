@@ -0,0 +1,24 @@
+import { D1LeadRepository } from "@/lib/leads/d1";
+import { MemoryLeadRepository } from "@/lib/leads/memory";
+import type { LeadRepository } from "@/lib/leads/repository";
+import { SupabaseLeadRepository } from "@/lib/leads/supabase";
+
+export * from "@/lib/leads/d1";
+export * from "@/lib/leads/filters";
+export * from "@/lib/leads/memory";
+export * from "@/lib/leads/repository";
+export * from "@/lib/leads/supabase";
+
+// LEAD_STORE selects the backend: "supabase" (default), "d1" or "memory"
+export const createLeadRepository = (env: Env): LeadRepository => {
+  switch (env.LEAD_STORE || "supabase") {
+    case "supabase":
+      return new SupabaseLeadRepository(env);
+    case "d1":
+      return new D1LeadRepository(env.DB);
+    case "memory":
+      return new MemoryLeadRepository();
+    default:
+      throw new Error(`Unknown LEAD_STORE: ${env.LEAD_STORE}`);
+  }
+};
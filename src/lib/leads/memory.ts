@@ -0,0 +1,137 @@
+import {
+  isAfterCursor,
+  matchesLeadFilters,
+  type LeadListOptions,
+} from "@/lib/leads/filters";
+import {
+  BaseLeadRepository,
+  DuplicateLeadError,
+  LeadNotFoundError,
+  pickColumns,
+} from "@/lib/leads/repository";
+import type { Lead, LeadFields } from "@/lib/services/lead";
+
+// Shared by every repository in the isolate, so stages run by separate requests see each other's writes
+const MEMORY_LEADS = new Map<string, Lead>();
+
+const emptyLead = (id: string): Lead => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    username: "",
+    raw_data: null,
+    profile_picture_key: null,
+    profile_picture_url: null,
+    reels: null,
+    reels_metrics: null,
+    er_avg: null,
+    has_reels: null,
+    website_data: null,
+    has_website: null,
+    website_summary: null,
+    openai: null,
+    ai_analysis_complete: false,
+    qualification: null,
+    qualification_score: null,
+    qualification_tier: null,
+    contacts: null,
+    seed_lead_id: null,
+    discovery_depth: null,
+    customer_id: null,
+    profile_status: null,
+    reels_status: null,
+    website_status: null,
+    ai_status: null,
+    qualify_status: null,
+    created_at: now,
+    updated_at: now,
+  };
+};
+
+/**
+ * Keeps leads in memory for offline development. Writing to an unknown lead
+ * creates it, so any leadId can be passed to the enrichment routes.
+ */
+export class MemoryLeadRepository extends BaseLeadRepository {
+  private leads: Map<string, Lead>;
+
+  constructor(leads: Map<string, Lead> = MEMORY_LEADS) {
+    super();
+    this.leads = leads;
+  }
+
+  async createLead(username: string, fields: LeadFields = {}) {
+    if (await this.findLeadId(username)) {
+      throw new DuplicateLeadError(username);
+    }
+    const leadId = crypto.randomUUID();
+    this.leads.set(leadId, { ...emptyLead(leadId), ...fields, username });
+    return leadId;
+  }
+
+  async createLeads(usernames: string[]) {
+    const ids = new Map<string, string>();
+    for (const username of usernames) {
+      if (await this.findLeadId(username)) continue;
+      ids.set(username, await this.createLead(username));
+    }
+    return ids;
+  }
+
+  async findExistingUsernames(usernames: string[]) {
+    const known = new Map(
+      [...this.leads.values()].map((lead) => [lead.username, lead.id]),
+    );
+    return new Map(
+      usernames.flatMap((username) =>
+        known.has(username) ? [[username, known.get(username)!] as const] : [],
+      ),
+    );
+  }
+
+  async findLeadId(username: string) {
+    const lead = [...this.leads.values()].find(
+      (lead) => lead.username === username,
+    );
+    return lead?.id ?? null;
+  }
+
+  async getLead<K extends keyof Lead>(leadId: string, columns: K[]) {
+    const lead = this.leads.get(leadId);
+    if (!lead) {
+      throw new LeadNotFoundError(leadId);
+    }
+    return pickColumns(lead, columns);
+  }
+
+  async listLeads<K extends keyof Lead>(
+    columns: K[],
+    { filters, limit, offset = 0, after }: LeadListOptions = {},
+  ) {
+    const leads = [...this.leads.values()]
+      .filter(
+        (lead) =>
+          matchesLeadFilters(lead, filters) && isAfterCursor(lead, after),
+      )
+      .sort(
+        (a, b) =>
+          b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id),
+      );
+    return leads
+      .slice(offset, limit === undefined ? undefined : offset + limit)
+      .map((lead) => pickColumns(lead, columns));
+  }
+
+  async updateLead(leadId: string, fields: LeadFields) {
+    const lead = this.leads.get(leadId) ?? emptyLead(leadId);
+    this.leads.set(leadId, {
+      ...lead,
+      ...fields,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async deleteLead(leadId: string) {
+    return this.leads.delete(leadId);
+  }
+}
@@ -0,0 +1,244 @@
+import type {
+  AiAnalysis,
+  EnrichmentStage,
+  StageState,
+  StageStatus,
+} from "@/lib/enrichment/types";
+import type { LeadListOptions } from "@/lib/leads/filters";
+import type { Lead, LeadFields } from "@/lib/services/lead";
+
+export const EMPTY_ANALYSIS: AiAnalysis = {
+  summary: null,
+  prices: [],
+  pricesLow: [],
+  niche: null,
+  otherContact: "",
+};
+
+// What a skipped stage leaves on the lead, so later stages see "none" rather than stale data
+export const SKIPPED_STAGE_FIELDS: Partial<
+  Record<EnrichmentStage, LeadFields>
+> = {
+  reels: {
+    has_reels: false,
+    reels: [],
+    reels_metrics: null,
+    er_avg: null,
+  },
+  website: { has_website: false, website_data: null },
+  ai: { openai: EMPTY_ANALYSIS, ai_analysis_complete: false },
+};
+
+export const PENDING_STAGE_STATUS: StageStatus = {
+  status: "pending",
+  reason: null,
+  attempts: 0,
+  startedAt: null,
+  finishedAt: null,
+  apifyRunId: null,
+};
+
+export const stageStatusColumn = (stage: EnrichmentStage) =>
+  `${stage}_status` as const;
+
+export const stageStatusOf = (
+  lead: Partial<Pick<Lead, `${EnrichmentStage}_status`>>,
+  stage: EnrichmentStage,
+) => lead[stageStatusColumn(stage)] ?? PENDING_STAGE_STATUS;
+
+/**
+ * Moves a stage to its next state. Starting a run counts an attempt; a stage
+ * that finishes without having been marked running counts one as well.
+ */
+export const nextStageStatus = (
+  current: StageStatus | null | undefined,
+  status: Exclude<StageState, "pending">,
+  {
+    reason = null,
+    apifyRunId,
+  }: { reason?: string | null; apifyRunId?: string | null } = {},
+  now = new Date().toISOString(),
+): StageStatus => {
+  const previous = current ?? PENDING_STAGE_STATUS;
+
+  if (status === "running") {
+    return {
+      status,
+      reason: null,
+      attempts: previous.attempts + 1,
+      startedAt: now,
+      finishedAt: null,
+      apifyRunId: apifyRunId ?? null,
+    };
+  }
+
+  const wasRunning = previous.status === "running";
+  return {
+    status,
+    reason,
+    attempts: wasRunning ? previous.attempts : previous.attempts + 1,
+    startedAt: wasRunning ? previous.startedAt : now,
+    finishedAt: now,
+    apifyRunId: apifyRunId ?? (wasRunning ? previous.apifyRunId : null),
+  };
+};
+
+// leads.username is unique; raised when a create loses the race to another
+export class DuplicateLeadError extends Error {
+  username: string;
+
+  constructor(username: string) {
+    super(`A lead with username ${username} already exists`);
+    this.name = "DuplicateLeadError";
+    this.username = username;
+  }
+}
+
+// Raised by getLead when no lead has the id
+export class LeadNotFoundError extends Error {
+  leadId: string;
+
+  constructor(leadId: string) {
+    super("Lead fetch failed: Not found");
+    this.name = "LeadNotFoundError";
+    this.leadId = leadId;
+  }
+}
+
+/**
+ * Where enrichment stages read leads from and write their results to. Pick a
+ * backend with LEAD_STORE; see createLeadRepository.
+ */
+export interface LeadRepository {
+  // Returns the new lead's id; throws DuplicateLeadError when the username is taken
+  createLead(username: string, fields?: LeadFields): Promise<string>;
+  // Pending leads for many usernames in as few requests as the backend allows;
+  // returns username → new id, leaving out usernames that were already taken
+  createLeads(usernames: string[]): Promise<Map<string, string>>;
+  // Which of the given usernames already belong to a lead: username → lead id
+  findExistingUsernames(usernames: string[]): Promise<Map<string, string>>;
+  // The id of the lead with exactly this username, or null
+  findLeadId(username: string): Promise<string | null>;
+  // Throws LeadNotFoundError when the lead doesn't exist
+  getLead<K extends keyof Lead>(
+    leadId: string,
+    columns: K[],
+  ): Promise<Pick<Lead, K>>;
+  // Newest first
+  listLeads<K extends keyof Lead>(
+    columns: K[],
+    options?: LeadListOptions,
+  ): Promise<Pick<Lead, K>[]>;
+  // Writes fields without touching any stage status
+  updateLead(leadId: string, fields: LeadFields): Promise<void>;
+  // False when there was no such lead
+  deleteLead(leadId: string): Promise<boolean>;
+  markStageRunning(
+    leadId: string,
+    stage: EnrichmentStage,
+    details?: { apifyRunId?: string },
+  ): Promise<void>;
+  // Saves the stage's fields and marks it succeeded
+  updateStageResult(
+    leadId: string,
+    stage: EnrichmentStage,
+    fields: LeadFields,
+  ): Promise<void>;
+  // Nothing to do for this lead, e.g. no website; clears the stage's fields
+  markStageSkipped(
+    leadId: string,
+    stage: EnrichmentStage,
+    reason: string,
+  ): Promise<void>;
+  // The stage broke, e.g. an Apify timeout; earlier results are kept
+  markStageFailed(
+    leadId: string,
+    stage: EnrichmentStage,
+    reason: string,
+  ): Promise<void>;
+}
+
+/**
+ * Stage status transitions shared by every backend, built on getLead and
+ * updateLead.
+ */
+export abstract class BaseLeadRepository implements LeadRepository {
+  abstract createLead(username: string, fields?: LeadFields): Promise<string>;
+  abstract createLeads(usernames: string[]): Promise<Map<string, string>>;
+  abstract findExistingUsernames(
+    usernames: string[],
+  ): Promise<Map<string, string>>;
+  abstract findLeadId(username: string): Promise<string | null>;
+  abstract getLead<K extends keyof Lead>(
+    leadId: string,
+    columns: K[],
+  ): Promise<Pick<Lead, K>>;
+  abstract listLeads<K extends keyof Lead>(
+    columns: K[],
+    options?: LeadListOptions,
+  ): Promise<Pick<Lead, K>[]>;
+  abstract updateLead(leadId: string, fields: LeadFields): Promise<void>;
+  abstract deleteLead(leadId: string): Promise<boolean>;
+
+  async markStageRunning(
+    leadId: string,
+    stage: EnrichmentStage,
+    { apifyRunId }: { apifyRunId?: string } = {},
+  ) {
+    const status = await this.nextStatus(leadId, stage, "running", {
+      apifyRunId,
+    });
+    await this.updateLead(leadId, { [stageStatusColumn(stage)]: status });
+  }
+
+  async updateStageResult(
+    leadId: string,
+    stage: EnrichmentStage,
+    fields: LeadFields,
+  ) {
+    const status = await this.nextStatus(leadId, stage, "succeeded");
+    await this.updateLead(leadId, {
+      ...fields,
+      [stageStatusColumn(stage)]: status,
+    });
+  }
+
+  async markStageSkipped(
+    leadId: string,
+    stage: EnrichmentStage,
+    reason: string,
+  ) {
+    const status = await this.nextStatus(leadId, stage, "skipped", { reason });
+    await this.updateLead(leadId, {
+      ...SKIPPED_STAGE_FIELDS[stage],
+      [stageStatusColumn(stage)]: status,
+    });
+  }
+
+  async markStageFailed(
+    leadId: string,
+    stage: EnrichmentStage,
+    reason: string,
+  ) {
+    const status = await this.nextStatus(leadId, stage, "failed", { reason });
+    await this.updateLead(leadId, { [stageStatusColumn(stage)]: status });
+  }
+
+  // Each stage has its own column, so concurrent stages don't overwrite each other's status
+  private async nextStatus(
+    leadId: string,
+    stage: EnrichmentStage,
+    status: Exclude<StageState, "pending">,
+    details?: { reason?: string; apifyRunId?: string },
+  ) {
+    const column = stageStatusColumn(stage);
+    const lead = await this.getLead(leadId, [column]).catch(() => null);
+    return nextStageStatus(lead?.[column], status, details);
+  }
+}
+
+export const pickColumns = <K extends keyof Lead>(lead: Lead, columns: K[]) =>
+  Object.fromEntries(columns.map((column) => [column, lead[column]])) as Pick<
+    Lead,
+    K
+  >;
@@ -0,0 +1,191 @@
+import { likePattern, type LeadListOptions } from "@/lib/leads/filters";
+import {
+  BaseLeadRepository,
+  DuplicateLeadError,
+  LeadNotFoundError,
+} from "@/lib/leads/repository";
+import type { Lead, LeadFields } from "@/lib/services/lead";
+import { createSupabaseClient } from "@/lib/supabase";
+
+// Usernames go into the query string of an in.(...) filter, so keep lists short
+const USERNAME_CHUNK_SIZE = 100;
+const INSERT_CHUNK_SIZE = 500;
+
+export class SupabaseLeadRepository extends BaseLeadRepository {
+  private supabase: ReturnType<typeof createSupabaseClient>;
+
+  constructor(env: Env) {
+    super();
+    this.supabase = createSupabaseClient(env);
+  }
+
+  async createLead(username: string, fields: LeadFields = {}) {
+    const { data, error } = await this.supabase
+      .from("leads")
+      .insert({ ...fields, username })
+      .select("id")
+      .single();
+
+    // unique_violation on leads.username
+    if (error?.code === "23505") {
+      throw new DuplicateLeadError(username);
+    }
+    if (error || !data) {
+      throw new Error(`Lead create failed: ${error?.message || "No id"}`);
+    }
+
+    return data.id as string;
+  }
+
+  async createLeads(usernames: string[]) {
+    const ids = new Map<string, string>();
+
+    for (let i = 0; i < usernames.length; i += INSERT_CHUNK_SIZE) {
+      const rows = usernames
+        .slice(i, i + INSERT_CHUNK_SIZE)
+        .map((username) => ({ username }));
+      let { data, error } = await this.supabase
+        .from("leads")
+        .upsert(rows, { onConflict: "username", ignoreDuplicates: true })
+        .select("id, username");
+      // No unique constraint on username yet (see the README); insert them all
+      if (error?.code === "42P10") {
+        ({ data, error } = await this.supabase
+          .from("leads")
+          .insert(rows)
+          .select("id, username"));
+      }
+
+      if (error || !data) {
+        throw new Error(`Lead create failed: ${error?.message || "No rows"}`);
+      }
+      data.forEach(({ id, username }) => ids.set(username, id));
+    }
+
+    return ids;
+  }
+
+  async findExistingUsernames(usernames: string[]) {
+    const existing = new Map<string, string>();
+
+    for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from("leads")
+        .select("id, username")
+        .in("username", usernames.slice(i, i + USERNAME_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Lead lookup failed: ${error.message}`);
+      }
+      data.forEach(({ id, username }) => existing.set(username, id));
+    }
+
+    return existing;
+  }
+
+  async findLeadId(username: string) {
+    const { data, error } = await this.supabase
+      .from("leads")
+      .select("id")
+      .eq("username", username)
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Lead lookup failed: ${error.message}`);
+    }
+
+    return (data[0]?.id as string | undefined) ?? null;
+  }
+
+  async getLead<K extends keyof Lead>(leadId: string, columns: K[]) {
+    const { data, error } = await this.supabase
+      .from("leads")
+      .select(columns.join(", "))
+      .eq("id", leadId)
+      .single();
+
+    // PGRST116: no row matched; 22P02: the id isn't a UUID, so none can
+    if (error?.code === "PGRST116" || error?.code === "22P02") {
+      throw new LeadNotFoundError(leadId);
+    }
+    if (error || !data) {
+      throw new Error(`Lead fetch failed: ${error?.message || "Not found"}`);
+    }
+
+    return data as unknown as Pick<Lead, K>;
+  }
+
+  async listLeads<K extends keyof Lead>(
+    columns: K[],
+    { filters = {}, limit, offset = 0, after }: LeadListOptions = {},
+  ) {
+    let query = this.supabase
+      .from("leads")
+      .select(columns.join(", "))
+      .order("created_at", { ascending: false })
+      .order("id");
+
+    if (after) {
+      // Quoted, since timestamps hold characters PostgREST's or() syntax reserves
+      query = query.or(
+        `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt."${after.id}")`,
+      );
+    }
+    if (filters.username !== undefined) {
+      query = query.ilike("username", likePattern(filters.username));
+    }
+    if (filters.tier !== undefined) {
+      query = query.eq("qualification_tier", filters.tier);
+    }
+    if (filters.minScore !== undefined) {
+      query = query.gte("qualification_score", filters.minScore);
+    }
+    if (filters.hasWebsite !== undefined) {
+      query = query.eq("has_website", filters.hasWebsite);
+    }
+    if (filters.seedLeadId !== undefined) {
+      query = query.eq("seed_lead_id", filters.seedLeadId);
+    }
+    if (filters.converted !== undefined) {
+      query = filters.converted
+        ? query.not("customer_id", "is", null)
+        : query.is("customer_id", null);
+    }
+    if (limit !== undefined) {
+      query = query.range(offset, offset + limit - 1);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Lead list failed: ${error.message}`);
+    }
+
+    return data as unknown as Pick<Lead, K>[];
+  }
+
+  async updateLead(leadId: string, fields: LeadFields) {
+    const { error } = await this.supabase
+      .from("leads")
+      .update(fields)
+      .eq("id", leadId);
+
+    if (error) {
+      console.error(`Supabase update error (${leadId}):`, error);
+      throw new Error(`Cache failed: ${error.message}`);
+    }
+  }
+
+  async deleteLead(leadId: string) {
+    const { count, error } = await this.supabase
+      .from("leads")
+      .delete({ count: "exact" })
+      .eq("id", leadId);
+
+    if (error) {
+      throw new Error(`Lead delete failed: ${error.message}`);
+    }
+
+    return (count ?? 0) > 0;
+  }
+}
@@ -0,0 +1,98 @@
+import { LlmResponseError, LlmTimeoutError } from "@/lib/llm/errors";
+import type {
+  LlmClient,
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmJsonCompletion,
+  LlmProvider,
+} from "@/lib/llm/types";
+
+export const DEFAULT_LLM_TIMEOUT_MS = 30_000;
+
+// Budget checks before each call and usage records after it
+export interface LlmMeter {
+  check(provider: LlmProvider): Promise<void>;
+  record(
+    request: LlmCompletionRequest,
+    completion: LlmCompletion,
+  ): Promise<void>;
+}
+
+export type LlmClientOptions = {
+  // Model per task; request.model still wins
+  models: (request: LlmCompletionRequest) => string;
+  timeoutMs?: number;
+  meter?: LlmMeter;
+};
+
+// Shared JSON handling and timeouts; providers only implement complete()
+export abstract class BaseLlmClient implements LlmClient {
+  abstract provider: LlmProvider;
+  protected options: LlmClientOptions;
+
+  constructor(options: LlmClientOptions) {
+    this.options = options;
+  }
+
+  protected abstract complete(
+    request: LlmCompletionRequest,
+    model: string,
+    timeoutMs: number,
+  ): Promise<LlmCompletion>;
+
+  async completeJson<T = unknown>(
+    request: LlmCompletionRequest,
+  ): Promise<LlmJsonCompletion<T>> {
+    const model = request.model || this.options.models(request);
+    const timeoutMs =
+      request.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+
+    await this.options.meter?.check(this.provider);
+    const completion = await this.complete(request, model, timeoutMs);
+    // Recorded before parsing: an unusable reply still cost tokens
+    await this.options.meter?.record(request, completion);
+
+    return { ...completion, data: parseJsonContent<T>(completion) };
+  }
+
+  // For providers without a client-side timeout of their own: aborts the call
+  // through its signal and rejects, so a provider ignoring the signal can't hang
+  protected withTimeout<R>(
+    call: (signal: AbortSignal) => Promise<R>,
+    timeoutMs: number,
+  ) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new LlmTimeoutError(this.provider, timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    return Promise.race([call(controller.signal), timeout]).finally(() =>
+      clearTimeout(timer),
+    );
+  }
+}
+
+const parseJsonContent = <T>({ provider, content }: LlmCompletion): T => {
+  if (!content.trim()) {
+    throw new LlmResponseError("Empty response", provider, content);
+  }
+
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch (err: any) {
+    throw new LlmResponseError(
+      `Invalid JSON: ${err.message}. Raw: ${content.substring(0, 200)}...`,
+      provider,
+      content,
+    );
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new LlmResponseError("Expected a JSON object", provider, content);
+  }
+  return data as T;
+};
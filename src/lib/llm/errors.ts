@@ -0,0 +1,75 @@
+import type { LlmProvider } from "@/lib/llm/types";
+
+export class LlmError extends Error {
+  provider: LlmProvider;
+  status?: number;
+
+  constructor(
+    message: string,
+    options: { provider: LlmProvider; status?: number },
+  ) {
+    super(message);
+    this.name = "LlmError";
+    this.provider = options.provider;
+    this.status = options.status;
+  }
+}
+
+// Rate or quota limits were hit; retrying right away won't help
+export class LlmRateLimitError extends LlmError {
+  constructor(
+    message: string,
+    options: { provider: LlmProvider; status?: number },
+  ) {
+    super(message, options);
+    this.name = "LlmRateLimitError";
+  }
+}
+
+export class LlmTimeoutError extends LlmError {
+  constructor(provider: LlmProvider, timeoutMs: number) {
+    super(`No response within ${Math.round(timeoutMs / 1000)}s`, {
+      provider,
+    });
+    this.name = "LlmTimeoutError";
+  }
+}
+
+// A daily or monthly spend limit is used up; calls fail without reaching the provider
+export class LlmBudgetExceededError extends LlmError {
+  period: "day" | "month";
+
+  constructor(
+    provider: LlmProvider,
+    period: "day" | "month",
+    budgetUsd: number,
+    spentUsd: number,
+  ) {
+    super(
+      `${period === "day" ? "Daily" : "Monthly"} LLM budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent)`,
+      { provider },
+    );
+    this.name = "LlmBudgetExceededError";
+    this.period = period;
+  }
+}
+
+// The provider answered, but not with the JSON object that was asked for
+export class LlmResponseError extends LlmError {
+  raw: string;
+
+  constructor(message: string, provider: LlmProvider, raw: string) {
+    super(message, { provider });
+    this.name = "LlmResponseError";
+    this.raw = raw;
+  }
+}
+
+// Maps client errors onto the status code a route should respond with
+export const llmErrorStatus = (error: unknown) => {
+  if (error instanceof LlmRateLimitError) return 429;
+  if (error instanceof LlmBudgetExceededError) return 429;
+  if (error instanceof LlmTimeoutError) return 504;
+  if (error instanceof LlmError) return 502;
+  return 500;
+};
@@ -0,0 +1,48 @@
+import { BaseLlmClient } from "@/lib/llm/client";
+import type {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmTask,
+} from "@/lib/llm/types";
+
+// Canned replies in the shape each task asks for
+const FAKE_RESPONSES: Record<LlmTask, (prompt: string) => object> = {
+  "lead-analysis": (prompt) => ({
+    summary: `Offline analysis (${prompt.length} characters of lead data).`,
+    niche: "unknown",
+    otherContact: "",
+  }),
+  "website-summary": (prompt) => ({
+    industry: "Unknown",
+    services: [],
+    audience: "Unknown",
+    valueProp: "Offline summary; no model was called.",
+    contactInfo: null,
+    fullSummary: `Offline summary (${prompt.length} characters of website content).`,
+  }),
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Deterministic stand-in for offline development: the same request always gets the same reply
+export class FakeLlmClient extends BaseLlmClient {
+  provider = "fake" as const;
+
+  protected async complete(
+    { task, messages }: LlmCompletionRequest,
+    model: string,
+  ): Promise<LlmCompletion> {
+    const prompt = messages.map((message) => message.content).join("\n");
+    const content = JSON.stringify(FAKE_RESPONSES[task]?.(prompt) ?? {});
+
+    return {
+      provider: this.provider,
+      model,
+      content,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(content),
+      },
+    };
+  }
+}
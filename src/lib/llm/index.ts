@@ -0,0 +1,73 @@
+import { FakeLlmClient } from "@/lib/llm/fake";
+import { OpenAiLlmClient } from "@/lib/llm/openai";
+import type {
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmTask,
+} from "@/lib/llm/types";
+import { createUsageMeter, type LlmUsageContext } from "@/lib/llm/usage";
+import { WorkersAiLlmClient } from "@/lib/llm/workers_ai";
+
+export * from "@/lib/llm/client";
+export * from "@/lib/llm/errors";
+export * from "@/lib/llm/fake";
+export * from "@/lib/llm/openai";
+export * from "@/lib/llm/pricing";
+export * from "@/lib/llm/structured";
+export * from "@/lib/llm/types";
+export * from "@/lib/llm/usage";
+export * from "@/lib/llm/workers_ai";
+
+export const DEFAULT_MODELS: Record<LlmProvider, Record<LlmTask, string>> = {
+  openai: {
+    "lead-analysis": "gpt-4o-mini",
+    "website-summary": "gpt-5-nano",
+  },
+  "workers-ai": {
+    "lead-analysis": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    "website-summary": "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+  },
+  fake: {
+    "lead-analysis": "fake",
+    "website-summary": "fake",
+  },
+};
+
+const parseProvider = (value: string | undefined): LlmProvider =>
+  value === "workers-ai" || value === "fake" ? value : "openai";
+
+// LLM_MODELS is a JSON object of task → model, e.g. {"website-summary": "gpt-4o-mini"}
+const parseModelOverrides = (value: string | undefined) => {
+  if (!value) return {};
+  try {
+    return JSON.parse(value) as Partial<Record<LlmTask, string>>;
+  } catch {
+    console.error("Ignoring invalid LLM_MODELS; expected a JSON object");
+    return {};
+  }
+};
+
+// LLM_PROVIDER picks the backend: openai (the default), workers-ai or fake.
+// Every call is metered against the LLM budgets and recorded for the context.
+export const createLlmClient = (
+  env: Env,
+  context: LlmUsageContext = { route: null },
+) => {
+  const provider = parseProvider(env.LLM_PROVIDER);
+  const overrides = parseModelOverrides(env.LLM_MODELS);
+  const options = {
+    models: ({ task }: LlmCompletionRequest) =>
+      overrides[task] || DEFAULT_MODELS[provider][task],
+    timeoutMs: Number(env.LLM_TIMEOUT_MS) || undefined,
+    meter: createUsageMeter(env, context),
+  };
+
+  switch (provider) {
+    case "workers-ai":
+      return new WorkersAiLlmClient({ ...options, ai: env.AI });
+    case "fake":
+      return new FakeLlmClient(options);
+    default:
+      return new OpenAiLlmClient({ ...options, apiKey: env.OPENAI_API_KEY });
+  }
+};
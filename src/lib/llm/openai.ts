@@ -0,0 +1,96 @@
+import OpenAI from "openai";
+import { BaseLlmClient, type LlmClientOptions } from "@/lib/llm/client";
+import { LlmError, LlmRateLimitError, LlmTimeoutError } from "@/lib/llm/errors";
+import type { LlmCompletion, LlmCompletionRequest } from "@/lib/llm/types";
+
+// Reasoning models only accept the default temperature, and their reasoning
+// tokens count against max_completion_tokens
+const isReasoningModel = (model: string) => /^(o\d|gpt-5)/.test(model);
+
+// Room for reasoning on top of the reply; without it a small budget is used
+// up by reasoning and the reply comes back empty
+const REASONING_TOKEN_BUDGET = 2000;
+
+// JSON extraction needs little reasoning; gpt-5 models go down to "minimal"
+const reasoningEffort = (model: string) =>
+  model.startsWith("gpt-5") ? "minimal" : "low";
+
+export class OpenAiLlmClient extends BaseLlmClient {
+  provider = "openai" as const;
+  private client: OpenAI;
+
+  constructor({
+    apiKey,
+    ...options
+  }: LlmClientOptions & {
+    apiKey: string;
+  }) {
+    super(options);
+    // Retrying is left to callers, e.g. workflow steps
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+
+  protected async complete(
+    { messages, temperature, maxTokens }: LlmCompletionRequest,
+    model: string,
+    timeoutMs: number,
+  ): Promise<LlmCompletion> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model,
+          messages,
+          response_format: { type: "json_object" },
+          ...(isReasoningModel(model)
+            ? {
+                reasoning_effort: reasoningEffort(model),
+                max_completion_tokens:
+                  maxTokens === undefined
+                    ? undefined
+                    : maxTokens + REASONING_TOKEN_BUDGET,
+              }
+            : {
+                max_completion_tokens: maxTokens,
+                ...(temperature !== undefined && { temperature }),
+              }),
+        },
+        { timeout: timeoutMs },
+      );
+
+      return {
+        provider: this.provider,
+        model: completion.model || model,
+        content: completion.choices[0]?.message?.content ?? "",
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+            }
+          : null,
+      };
+    } catch (err) {
+      throw toLlmError(err, timeoutMs);
+    }
+  }
+}
+
+const toLlmError = (err: unknown, timeoutMs: number) => {
+  if (err instanceof OpenAI.APIConnectionTimeoutError) {
+    return new LlmTimeoutError("openai", timeoutMs);
+  }
+  if (err instanceof OpenAI.RateLimitError) {
+    return new LlmRateLimitError(err.message, {
+      provider: "openai",
+      status: 429,
+    });
+  }
+  if (err instanceof OpenAI.APIError) {
+    return new LlmError(err.message, {
+      provider: "openai",
+      status: err.status,
+    });
+  }
+  return new LlmError(err instanceof Error ? err.message : String(err), {
+    provider: "openai",
+  });
+};
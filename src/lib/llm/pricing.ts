@@ -0,0 +1,38 @@
+import type { LlmUsage } from "@/lib/llm/types";
+
+// USD per million tokens; update when providers change their prices
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast": { input: 0.29, output: 2.25 },
+  "@cf/meta/llama-3.1-8b-instruct-fast": { input: 0.045, output: 0.384 },
+  fake: { input: 0, output: 0 },
+};
+
+// Longest first, so "gpt-4o-mini-2024-07-18" matches gpt-4o-mini rather than gpt-4o
+const PRICED_MODELS = Object.keys(MODEL_PRICES).sort(
+  (a, b) => b.length - a.length,
+);
+
+const findPrice = (model: string) => {
+  const match = PRICED_MODELS.find(
+    (priced) => model === priced || model.startsWith(`${priced}-`),
+  );
+  return match ? MODEL_PRICES[match] : null;
+};
+
+// null for models without a known price
+export const llmCostUsd = (model: string, usage: LlmUsage | null) => {
+  const price = findPrice(model);
+  if (!price || !usage) return null;
+
+  const cost =
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000;
+  return Number(cost.toFixed(6));
+};
@@ -0,0 +1,89 @@
+import type * as z from "zod";
+import { LlmResponseError } from "@/lib/llm/errors";
+import type {
+  LlmClient,
+  LlmCompletion,
+  LlmCompletionRequest,
+} from "@/lib/llm/types";
+
+// One repair attempt after the first reply
+export const MAX_LLM_ATTEMPTS = 2;
+
+export type LlmStructuredCompletion<T> = LlmCompletion & {
+  data: T;
+  // 1 when the first reply was valid, 2 when the repair attempt fixed it
+  attempts: number;
+};
+
+// The reply was still invalid after the repair attempt
+export class LlmValidationError extends LlmResponseError {
+  attempts: number;
+  problems: string[];
+
+  constructor(
+    provider: LlmCompletion["provider"],
+    raw: string,
+    problems: string[],
+    attempts: number,
+  ) {
+    super(
+      `Invalid response after ${attempts} attempts: ${problems.join("; ")}`,
+      provider,
+      raw,
+    );
+    this.name = "LlmValidationError";
+    this.attempts = attempts;
+    this.problems = problems;
+  }
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+
+const repairMessage = (problems: string[]) =>
+  `Your reply was not valid:\n${problems.map((problem) => `- ${problem}`).join("\n")}\nReply again with only the corrected JSON object.`;
+
+// Asks for JSON matching the schema; on invalid JSON or a schema mismatch,
+// sends the problems back to the model once before giving up
+export async function completeWithSchema<S extends z.ZodTypeAny>(
+  client: LlmClient,
+  request: LlmCompletionRequest,
+  schema: S,
+): Promise<LlmStructuredCompletion<z.infer<S>>> {
+  let messages = request.messages;
+  let problems: string[] = [];
+  let raw = "";
+
+  for (let attempt = 1; attempt <= MAX_LLM_ATTEMPTS; attempt++) {
+    try {
+      const completion = await client.completeJson({ ...request, messages });
+      raw = completion.content;
+
+      const parsed = schema.safeParse(completion.data);
+      if (parsed.success) {
+        return { ...completion, data: parsed.data, attempts: attempt };
+      }
+      problems = describeIssues(parsed.error);
+    } catch (err) {
+      // Anything other than a malformed reply (timeouts, rate limits) isn't worth a repair
+      if (!(err instanceof LlmResponseError)) throw err;
+      raw = err.raw;
+      problems = [err.message];
+    }
+
+    messages = [
+      ...request.messages,
+      { role: "assistant", content: raw },
+      { role: "user", content: repairMessage(problems) },
+    ];
+  }
+
+  throw new LlmValidationError(
+    client.provider,
+    raw,
+    problems,
+    MAX_LLM_ATTEMPTS,
+  );
+}
@@ -0,0 +1,41 @@
+export type LlmProvider = "openai" | "workers-ai" | "fake";
+
+// What a call is for; each task can run on its own model (see LLM_MODELS)
+export type LlmTask = "lead-analysis" | "website-summary";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type LlmCompletionRequest = {
+  task: LlmTask;
+  messages: LlmMessage[];
+  // Overrides the model configured for the task
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type LlmCompletion = {
+  provider: LlmProvider;
+  model: string;
+  content: string;
+  usage: LlmUsage | null;
+};
+
+export type LlmJsonCompletion<T> = LlmCompletion & { data: T };
+
+export interface LlmClient {
+  provider: LlmProvider;
+  // Asks for a JSON object and parses it; throws LlmResponseError when the reply isn't one
+  completeJson<T = unknown>(
+    request: LlmCompletionRequest,
+  ): Promise<LlmJsonCompletion<T>>;
+}
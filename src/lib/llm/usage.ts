@@ -0,0 +1,82 @@
+import type { LlmMeter } from "@/lib/llm/client";
+import { LlmBudgetExceededError } from "@/lib/llm/errors";
+import { llmCostUsd } from "@/lib/llm/pricing";
+import type { LlmProvider } from "@/lib/llm/types";
+import { LlmUsageService } from "@/lib/services/llm_usage";
+
+// Who made the call, recorded with its usage
+export type LlmUsageContext = {
+  route: string | null;
+  leadId?: string | null;
+};
+
+// Empty or non-positive means no limit
+const parseBudget = (value: string | undefined) => {
+  const budget = Number(value);
+  return value && Number.isFinite(budget) && budget > 0 ? budget : null;
+};
+
+// Budgets are UTC calendar days and months
+const periodStarts = (now: Date) => ({
+  day: new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  ),
+  month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+});
+
+// Meters calls against LLM_DAILY_BUDGET_USD and LLM_MONTHLY_BUDGET_USD and
+// records each one in llm_usage. Storage errors are logged, never thrown.
+export const createUsageMeter = (
+  env: Env,
+  { route, leadId = null }: LlmUsageContext,
+): LlmMeter => {
+  const usage = new LlmUsageService(env.DB);
+  const budgets = {
+    day: parseBudget(env.LLM_DAILY_BUDGET_USD),
+    month: parseBudget(env.LLM_MONTHLY_BUDGET_USD),
+  };
+
+  return {
+    async check(provider: LlmProvider) {
+      if (budgets.day === null && budgets.month === null) return;
+
+      const starts = periodStarts(new Date());
+      let spent;
+      try {
+        spent = await usage.getSpend(starts.day, starts.month);
+      } catch (err) {
+        console.error("LLM budget check error:", err);
+        return;
+      }
+
+      for (const period of ["day", "month"] as const) {
+        const budget = budgets[period];
+        if (budget !== null && spent[period] >= budget) {
+          throw new LlmBudgetExceededError(
+            provider,
+            period,
+            budget,
+            spent[period],
+          );
+        }
+      }
+    },
+
+    async record(request, completion) {
+      try {
+        await usage.create({
+          provider: completion.provider,
+          model: completion.model,
+          task: request.task,
+          route,
+          leadId,
+          inputTokens: completion.usage?.inputTokens ?? 0,
+          outputTokens: completion.usage?.outputTokens ?? 0,
+          costUsd: llmCostUsd(completion.model, completion.usage),
+        });
+      } catch (err) {
+        console.error("LLM usage record error:", err);
+      }
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { BaseLlmClient, type LlmClientOptions } from "@/lib/llm/client";
+import { LlmError } from "@/lib/llm/errors";
+import type { LlmCompletion, LlmCompletionRequest } from "@/lib/llm/types";
+
+// Runs on the Worker's AI binding; no API key needed
+export class WorkersAiLlmClient extends BaseLlmClient {
+  provider = "workers-ai" as const;
+  private ai: Ai;
+
+  constructor({ ai, ...options }: LlmClientOptions & { ai: Ai }) {
+    super(options);
+    this.ai = ai;
+  }
+
+  protected async complete(
+    { messages, temperature, maxTokens }: LlmCompletionRequest,
+    model: string,
+    timeoutMs: number,
+  ): Promise<LlmCompletion> {
+    let output: any;
+    try {
+      output = await this.withTimeout((signal) => {
+        // The runtime honours signal; the generated AiOptions type omits it
+        const options: AiOptions & { signal: AbortSignal } = { signal };
+        return this.ai.run(
+          model as keyof AiModels,
+          {
+            messages,
+            response_format: { type: "json_object" },
+            max_tokens: maxTokens,
+            temperature,
+          },
+          options,
+        );
+      }, timeoutMs);
+    } catch (err: any) {
+      if (err instanceof LlmError) throw err;
+      throw new LlmError(`Workers AI error: ${err.message}`, {
+        provider: this.provider,
+      });
+    }
+
+    // JSON mode can hand back the parsed object instead of text
+    const response = output?.response ?? "";
+    return {
+      provider: this.provider,
+      model,
+      content:
+        typeof response === "string" ? response : JSON.stringify(response),
+      usage: output?.usage
+        ? {
+            inputTokens: output.usage.prompt_tokens ?? 0,
+            outputTokens: output.usage.completion_tokens ?? 0,
+          }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+export class MediaError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "MediaError";
+    this.status = status;
+  }
+}
+
+// The source isn't an image type we accept, or its bytes don't match what it claims to be
+export class MediaTypeError extends MediaError {
+  constructor(message: string) {
+    super(message, 415);
+    this.name = "MediaTypeError";
+  }
+}
+
+export class MediaTooLargeError extends MediaError {
+  constructor(size: number, maxBytes: number) {
+    super(`Media is ${size} bytes; the limit is ${maxBytes}`, 413);
+    this.name = "MediaTooLargeError";
+  }
+}
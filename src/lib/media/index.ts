@@ -0,0 +1,12 @@
+import { R2MediaStore } from "@/lib/media/r2";
+
+export * from "@/lib/media/errors";
+export * from "@/lib/media/r2";
+export * from "@/lib/media/response";
+export * from "@/lib/media/types";
+
+// Serves through /api/media unless MEDIA_PUBLIC_URL points at a public bucket domain
+export const createMediaStore = (env: Env) =>
+  new R2MediaStore(env.MEDIA_BUCKET, {
+    publicBaseUrl: env.MEDIA_PUBLIC_URL || undefined,
+  });
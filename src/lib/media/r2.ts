@@ -0,0 +1,133 @@
+import {
+  MediaError,
+  MediaTooLargeError,
+  MediaTypeError,
+} from "@/lib/media/errors";
+import type {
+  MediaKind,
+  MediaStore,
+  StoreMediaOptions,
+  StoredMedia,
+} from "@/lib/media/types";
+
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+// Accepted image types and the file extension their keys get
+const IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const KEY_PREFIXES: Record<MediaKind, string> = {
+  "profile-picture": "pfp",
+  "reel-thumbnail": "reel",
+};
+
+// Identifies the image type from its leading bytes rather than trusting the response header
+export const sniffImageType = (bytes: Uint8Array): string | null => {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (
+    startsWith([0x52, 0x49, 0x46, 0x46]) &&
+    startsWith([0x57, 0x45, 0x42, 0x50], 8)
+  )
+    return "image/webp";
+  return null;
+};
+
+const sha256Hex = async (buffer: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export class R2MediaStore implements MediaStore {
+  private bucket: R2Bucket;
+  private publicBaseUrl: string;
+  private maxBytes: number;
+
+  constructor(
+    bucket: R2Bucket,
+    { publicBaseUrl = "/api/media", maxBytes = MAX_MEDIA_BYTES } = {},
+  ) {
+    this.bucket = bucket;
+    this.publicBaseUrl = publicBaseUrl.replace(/\/$/, "");
+    this.maxBytes = maxBytes;
+  }
+
+  publicUrl(key: string) {
+    return `${this.publicBaseUrl}/${encodeURIComponent(key)}`;
+  }
+
+  get(key: string) {
+    return this.bucket.get(key);
+  }
+
+  async storeFromUrl(
+    sourceUrl: string,
+    { kind }: StoreMediaOptions,
+  ): Promise<StoredMedia> {
+    let response: Response;
+    try {
+      response = await fetch(sourceUrl);
+    } catch (err: any) {
+      throw new MediaError(`Failed to download media: ${err.message}`);
+    }
+    if (!response.ok) {
+      throw new MediaError(
+        `Failed to download media: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const declaredType = (response.headers.get("content-type") ?? "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    if (declaredType && !IMAGE_TYPES[declaredType]) {
+      throw new MediaTypeError(`Unsupported content type: ${declaredType}`);
+    }
+
+    // Reject early when the server tells us the size, before reading the body
+    const declaredSize = Number(response.headers.get("content-length"));
+    if (declaredSize > this.maxBytes) {
+      throw new MediaTooLargeError(declaredSize, this.maxBytes);
+    }
+
+    const buffer = await response.arrayBuffer();
+    if (buffer.byteLength > this.maxBytes) {
+      throw new MediaTooLargeError(buffer.byteLength, this.maxBytes);
+    }
+
+    const contentType = sniffImageType(new Uint8Array(buffer, 0, 12));
+    if (!contentType) {
+      throw new MediaTypeError("Downloaded media is not a supported image");
+    }
+
+    const hash = await sha256Hex(buffer);
+    const key = `${KEY_PREFIXES[kind]}_${hash}.${IMAGE_TYPES[contentType]}`;
+    const stored = {
+      key,
+      url: this.publicUrl(key),
+      contentType,
+      size: buffer.byteLength,
+    };
+
+    if (await this.bucket.head(key)) {
+      return { ...stored, created: false };
+    }
+
+    await this.bucket.put(key, buffer, {
+      httpMetadata: { contentType },
+      customMetadata: { sourceUrl },
+    });
+
+    return { ...stored, created: true };
+  }
+}
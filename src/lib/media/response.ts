@@ -0,0 +1,17 @@
+import type { MediaStore } from "@/lib/media/types";
+
+// Streams a stored object with its content type, or a 404 when there's none
+export async function mediaResponse(store: MediaStore, key: string) {
+  const object = await store.get(key);
+  if (!object) {
+    return Response.json({ message: "Media not found" }, { status: 404 });
+  }
+
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  headers.set("ETag", object.httpEtag);
+  // Keys are content hashes, so an object never changes once stored
+  headers.set("Cache-Control", "private, max-age=31536000, immutable");
+
+  return new Response(object.body, { headers });
+}
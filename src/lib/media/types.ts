@@ -0,0 +1,25 @@
+export type StoredMedia = {
+  key: string;
+  // Where clients should load the object from
+  url: string;
+  contentType: string;
+  size: number;
+  // False when an identical object was already stored under the same key
+  created: boolean;
+};
+
+export type MediaKind = "profile-picture" | "reel-thumbnail";
+
+export type StoreMediaOptions = {
+  kind: MediaKind;
+};
+
+export interface MediaStore {
+  // Downloads the image at sourceUrl and stores it under a content-hash key
+  storeFromUrl(
+    sourceUrl: string,
+    options: StoreMediaOptions,
+  ): Promise<StoredMedia>;
+  get(key: string): Promise<R2ObjectBody | null>;
+  publicUrl(key: string): string;
+}
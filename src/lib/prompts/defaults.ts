@@ -0,0 +1,72 @@
+import type { PromptName } from "@/lib/prompts/types";
+
+type PromptDefinition = {
+  // Values the calling code supplies; templates may use any of them
+  variables: string[];
+  systemPrompt: string;
+  userPrompt: string;
+};
+
+// Version 1 of each prompt, stored in D1 the first time it's needed
+export const PROMPT_DEFINITIONS: Record<PromptName, PromptDefinition> = {
+  "lead-analysis": {
+    variables: [
+      "profile",
+      "biography",
+      "followers",
+      "verified",
+      "externalUrl",
+      "reels",
+      "website",
+      "prices",
+    ],
+    systemPrompt: `You are a lead qualification expert for Instagram e-commerce influencers. Analyze the profile bio/followers, reels engagement, and website text for brand fit. Extract precisely:
+- summary: 2-3 sentence overview (e.g., "Sustainable fashion brand targeting millennials via TikTok-style reels").
+- niche: Short phrase (e.g., "eco-friendly apparel").
+- otherContact: Non-IG contacts (e.g., "hello@brand.com") or "".
+
+Respond ONLY with strict JSON: {"summary": "str", "niche": "str", "otherContact": "str"}. No extras.`,
+    userPrompt: `
+Profile: {{profile}} (bio: {{biography}}, followers: {{followers}}, verified: {{verified}}, externalUrl: {{externalUrl}}).
+{{reels}}
+{{website}}
+{{prices}}
+Infer niche from bio/reels captions; prioritize engagement for summary.`,
+  },
+  "website-summary": {
+    variables: ["url", "title", "description", "content"],
+    systemPrompt:
+      "You are a precise lead qualification analyst. Respond with valid JSON only.",
+    userPrompt: `Analyze this website content for lead qualification in a B2B SaaS context. Extract key insights only—be concise, factual, and structured.
+
+Website URL: {{url}}
+Title: {{title}}
+Description: {{description}}
+
+Content to analyze:
+{{content}}
+
+Instructions:
+- Industry/Sector: Primary business focus (e.g., "Digital Marketing").
+- Services/Products: Bullet list of 3-5 core offerings (e.g., ["SEO Optimization", "PPC Ads"]).
+- Target Audience: Demographics/niches (e.g., "SMB e-commerce owners, 25-45yo").
+- Value Proposition: 1-sentence unique selling point.
+- Contact Signals: Any emails, forms, or outreach hooks (or "None detected").
+- Full Summary: 150-200 word overview tying it all (for quick read).
+
+Output STRICT JSON only—no extra text. Schema:
+{
+  "industry": "string",
+  "services": ["string", ...],
+  "audience": "string",
+  "valueProp": "string",
+  "contactInfo": "string|null",
+  "fullSummary": "string"
+}`,
+  },
+};
+
+export const PROMPT_NAMES = Object.keys(PROMPT_DEFINITIONS) as PromptName[];
+
+export const isPromptName = (value: unknown): value is PromptName =>
+  PROMPT_NAMES.includes(value as PromptName);
@@ -0,0 +1,113 @@
+import { PROMPT_DEFINITIONS, PROMPT_NAMES } from "@/lib/prompts/defaults";
+import { PromptTemplateError, templateVariables } from "@/lib/prompts/render";
+import type {
+  PromptName,
+  PromptRef,
+  PromptTemplate,
+} from "@/lib/prompts/types";
+import { PromptTemplateService } from "@/lib/services/prompt_template";
+
+export * from "@/lib/prompts/defaults";
+export * from "@/lib/prompts/render";
+export * from "@/lib/prompts/schemas";
+export * from "@/lib/prompts/types";
+
+export const builtInPrompt = (name: PromptName): PromptTemplate => {
+  const { systemPrompt, userPrompt } = PROMPT_DEFINITIONS[name];
+  return {
+    id: null,
+    name,
+    version: 1,
+    systemPrompt,
+    userPrompt,
+    variables: templateVariables(systemPrompt, userPrompt),
+    notes: null,
+    isActive: true,
+    createdAt: null,
+  };
+};
+
+export const promptRef = (
+  { name, version }: PromptTemplate,
+  model: string,
+): PromptRef => ({ name, version, model });
+
+// Stores the built-in prompt as active version 1 the first time a name is used
+async function ensureDefaultPrompt(
+  service: PromptTemplateService,
+  name: PromptName,
+) {
+  const active = await service.getActive(name);
+  if (active) return active;
+
+  await service.createDefault(builtInPrompt(name));
+  return service.getActive(name);
+}
+
+export const ensureDefaultPrompts = async (env: Env) => {
+  const service = new PromptTemplateService(env.DB);
+  for (const name of PROMPT_NAMES) {
+    await ensureDefaultPrompt(service, name);
+  }
+};
+
+export async function loadActivePrompt(
+  env: Env,
+  name: PromptName,
+): Promise<PromptTemplate> {
+  try {
+    const active = await ensureDefaultPrompt(
+      new PromptTemplateService(env.DB),
+      name,
+    );
+    if (active) return active;
+  } catch (err) {
+    // e.g. migrations not applied yet; the analysis still runs on the built-in wording
+    console.error(`Prompt registry error (${name}):`, err);
+  }
+  return builtInPrompt(name);
+}
+
+// Adds the next version of a prompt; its placeholders must be values the calling code supplies
+export async function createPromptVersion(
+  env: Env,
+  {
+    name,
+    systemPrompt,
+    userPrompt,
+    notes = null,
+    activate = false,
+  }: {
+    name: PromptName;
+    systemPrompt: string;
+    userPrompt: string;
+    notes?: string | null;
+    activate?: boolean;
+  },
+) {
+  const variables = templateVariables(systemPrompt, userPrompt);
+  const available = PROMPT_DEFINITIONS[name].variables;
+  const unknown = variables.filter((variable) => !available.includes(variable));
+  if (unknown.length) {
+    throw new PromptTemplateError(
+      `Unknown variables for ${name}: ${unknown.join(", ")} (available: ${available.join(", ")})`,
+    );
+  }
+
+  const service = new PromptTemplateService(env.DB);
+  // Keeps version 1 the built-in wording
+  await ensureDefaultPrompt(service, name);
+
+  const template = await service.create({
+    name,
+    systemPrompt,
+    userPrompt,
+    variables,
+    notes,
+  });
+  if (activate) {
+    await service.activate(template.id!);
+    template.isActive = true;
+  }
+  return template;
+}
@@ -0,0 +1,36 @@
+import type { PromptTemplate, PromptValues } from "@/lib/prompts/types";
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_]\w*)\s*\}\}/g;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+// Placeholder names in order of first use
+export const templateVariables = (...texts: string[]) => [
+  ...new Set(
+    texts.flatMap((text) =>
+      Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]),
+    ),
+  ),
+];
+
+// Single pass, so values that happen to contain {{...}} are left alone
+export const renderTemplate = (text: string, values: PromptValues) =>
+  text.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in values)) {
+      throw new PromptTemplateError(`No value for {{${name}}}`);
+    }
+    return String(values[name]);
+  });
+
+export const renderPrompt = (
+  template: Pick<PromptTemplate, "systemPrompt" | "userPrompt">,
+  values: PromptValues,
+) => ({
+  system: renderTemplate(template.systemPrompt, values),
+  user: renderTemplate(template.userPrompt, values),
+});
@@ -0,0 +1,20 @@
+import * as z from "zod";
+
+// What the lead-analysis prompt asks for; prices are filled in from the website data
+export const leadAnalysisSchema = z.object({
+  summary: z.string().min(1),
+  niche: z.string().min(1),
+  otherContact: z.string(),
+});
+
+export const websiteSummarySchema = z.object({
+  industry: z.string().min(1),
+  services: z.array(z.string()),
+  audience: z.string(),
+  valueProp: z.string(),
+  contactInfo: z.string().nullable(),
+  fullSummary: z.string().min(1),
+});
+
+export type LeadAnalysisOutput = z.infer<typeof leadAnalysisSchema>;
+export type WebsiteSummary = z.infer<typeof websiteSummarySchema>;
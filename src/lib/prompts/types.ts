@@ -0,0 +1,24 @@
+export type PromptName = "lead-analysis" | "website-summary";
+
+export type PromptTemplate = {
+  // null for a built-in default that isn't stored yet
+  id: number | null;
+  name: PromptName;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  // The {{placeholders}} the two templates use
+  variables: string[];
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string | null;
+};
+
+// Recorded on every saved analysis, so results can be traced to the wording that produced them
+export type PromptRef = {
+  name: PromptName;
+  version: number;
+  model: string;
+};
+
+export type PromptValues = Record<string, string | number | boolean>;
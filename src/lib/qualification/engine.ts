@@ -0,0 +1,132 @@
+import { analysisPrices } from "@/lib/enrichment/prices";
+import type { Criterion, Rubric } from "@/lib/qualification/rubric";
+
+export type LeadSignals = {
+  followersCount: number | null;
+  verified: boolean | null;
+  restricted: boolean | null;
+  er_avg: number | null;
+  has_website: boolean | null;
+  priceCount: number | null;
+  niche: string | null;
+};
+
+export type CriterionResult = {
+  id: string;
+  label: string;
+  value: string | number | boolean | null;
+  weight: number;
+  points: number;
+  reason: string;
+};
+
+export type Qualification = {
+  score: number;
+  tier: string;
+  disqualified: boolean;
+  rubricVersion: number;
+  breakdown: CriterionResult[];
+  scoredAt: string;
+};
+
+const asNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const asBoolean = (value: unknown) =>
+  typeof value === "boolean" ? value : null;
+
+// Reads the fields each enrichment stage stores on the lead
+export const extractSignals = (lead: Record<string, any>): LeadSignals => {
+  const profile = lead.raw_data || {};
+  const analysis = lead.openai || {};
+  // Counted from the website stage's price summary, not the LLM's reading of it
+  const prices = lead.website_data?.prices;
+
+  return {
+    followersCount: asNumber(profile.followersCount),
+    verified: asBoolean(profile.verified),
+    restricted: asBoolean(profile.restricted),
+    er_avg: asNumber(lead.er_avg),
+    has_website: asBoolean(lead.has_website),
+    priceCount: prices ? analysisPrices(prices).prices.length : null,
+    niche:
+      typeof analysis.niche === "string" && analysis.niche.trim()
+        ? analysis.niche
+        : null,
+  };
+};
+
+const scoreCriterion = (
+  criterion: Criterion,
+  value: LeadSignals[keyof LeadSignals],
+) => {
+  switch (criterion.kind) {
+    case "bands": {
+      if (typeof value !== "number") return criterion.missing;
+      const band = criterion.bands.find(
+        (b) =>
+          (b.min === undefined || value >= b.min) &&
+          (b.max === undefined || value < b.max),
+      );
+      return band || criterion.missing;
+    }
+    case "boolean":
+      return value ? criterion.whenTrue : criterion.whenFalse;
+    case "keywords": {
+      if (typeof value !== "string") return criterion.missing;
+      const text = value.toLowerCase();
+      return criterion.keywords.some((k) => text.includes(k.toLowerCase()))
+        ? criterion.matched
+        : criterion.unmatched;
+    }
+  }
+};
+
+/**
+ * Scores a lead against the rubric. The score is the weighted share of
+ * points earned (0–100); the breakdown explains every criterion.
+ */
+export function scoreLead(signals: LeadSignals, rubric: Rubric): Qualification {
+  let disqualified = false;
+
+  const breakdown = rubric.criteria.map((criterion): CriterionResult => {
+    const value = signals[criterion.signal];
+    const { score, reason } = scoreCriterion(criterion, value);
+
+    if (
+      criterion.kind === "boolean" &&
+      criterion.disqualifyWhen !== undefined &&
+      value === criterion.disqualifyWhen
+    ) {
+      disqualified = true;
+    }
+
+    return {
+      id: criterion.id,
+      label: criterion.label,
+      value,
+      weight: criterion.weight,
+      points: Number((score * criterion.weight).toFixed(2)),
+      reason,
+    };
+  });
+
+  const totalWeight = breakdown.reduce((sum, c) => sum + c.weight, 0);
+  const totalPoints = breakdown.reduce((sum, c) => sum + c.points, 0);
+  const score =
+    totalWeight > 0 ? Math.round((totalPoints / totalWeight) * 100) : 0;
+
+  const tier = disqualified
+    ? rubric.disqualifiedTier
+    : (rubric.tiers.find((t) => score >= t.minScore) ??
+        rubric.tiers[rubric.tiers.length - 1])!.name;
+
+  return {
+    score,
+    tier,
+    disqualified,
+    rubricVersion: rubric.version,
+    breakdown,
+    scoredAt: new Date().toISOString(),
+  };
+}
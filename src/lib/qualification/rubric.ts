@@ -0,0 +1,181 @@
+import * as z from "zod";
+
+// Everything the rubric can score, gathered from the enrichment stages
+export const SIGNALS = [
+  "followersCount",
+  "verified",
+  "restricted",
+  "er_avg",
+  "has_website",
+  "priceCount",
+  "niche",
+] as const;
+
+const bandSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  score: z.number().min(0).max(1),
+  reason: z.string(),
+});
+
+const criterionSchema = z.discriminatedUnion("kind", [
+  // Numeric signal scored by the first band whose [min, max) range contains it
+  z.object({
+    kind: z.literal("bands"),
+    id: z.string(),
+    label: z.string(),
+    signal: z.enum(SIGNALS),
+    weight: z.number().min(0),
+    bands: z.array(bandSchema).min(1),
+    missing: bandSchema.omit({ min: true, max: true }),
+  }),
+  z.object({
+    kind: z.literal("boolean"),
+    id: z.string(),
+    label: z.string(),
+    signal: z.enum(SIGNALS),
+    weight: z.number().min(0),
+    whenTrue: bandSchema.omit({ min: true, max: true }),
+    whenFalse: bandSchema.omit({ min: true, max: true }),
+    // A lead with this value lands in the disqualified tier whatever its score
+    disqualifyWhen: z.boolean().optional(),
+  }),
+  // Text signal scored by whether it mentions any of the keywords
+  z.object({
+    kind: z.literal("keywords"),
+    id: z.string(),
+    label: z.string(),
+    signal: z.enum(SIGNALS),
+    weight: z.number().min(0),
+    keywords: z.array(z.string()),
+    matched: bandSchema.omit({ min: true, max: true }),
+    unmatched: bandSchema.omit({ min: true, max: true }),
+    missing: bandSchema.omit({ min: true, max: true }),
+  }),
+]);
+
+export const rubricSchema = z.object({
+  version: z.number().int(),
+  criteria: z.array(criterionSchema).min(1),
+  // Checked in order; the first tier whose minScore the lead reaches wins
+  tiers: z.array(z.object({ name: z.string(), minScore: z.number() })).min(1),
+  disqualifiedTier: z.string(),
+});
+
+export type Rubric = z.infer<typeof rubricSchema>;
+export type Criterion = Rubric["criteria"][number];
+
+export const DEFAULT_RUBRIC: Rubric = {
+  version: 1,
+  criteria: [
+    {
+      kind: "bands",
+      id: "audience_size",
+      label: "Audience size",
+      signal: "followersCount",
+      weight: 25,
+      bands: [
+        { max: 1_000, score: 0, reason: "Under 1k followers" },
+        { min: 1_000, max: 10_000, score: 0.5, reason: "1k–10k followers" },
+        { min: 10_000, max: 100_000, score: 1, reason: "10k–100k followers" },
+        {
+          min: 100_000,
+          max: 1_000_000,
+          score: 0.8,
+          reason: "100k–1M followers",
+        },
+        { min: 1_000_000, score: 0.4, reason: "Over 1M followers" },
+      ],
+      missing: { score: 0, reason: "Follower count unknown" },
+    },
+    {
+      kind: "bands",
+      id: "engagement",
+      label: "Reels engagement",
+      signal: "er_avg",
+      weight: 25,
+      bands: [
+        { max: 1, score: 0.2, reason: "Engagement under 1%" },
+        { min: 1, max: 3, score: 0.6, reason: "Engagement 1–3%" },
+        { min: 3, score: 1, reason: "Engagement 3% or more" },
+      ],
+      missing: { score: 0, reason: "No reels data" },
+    },
+    {
+      kind: "boolean",
+      id: "website",
+      label: "Website",
+      signal: "has_website",
+      weight: 15,
+      whenTrue: { score: 1, reason: "Has a website" },
+      whenFalse: { score: 0, reason: "No website found" },
+    },
+    {
+      kind: "bands",
+      id: "pricing",
+      label: "Products with prices",
+      signal: "priceCount",
+      weight: 15,
+      bands: [
+        { max: 1, score: 0, reason: "No prices found" },
+        { min: 1, score: 1, reason: "Sells priced products" },
+      ],
+      missing: { score: 0, reason: "No prices found" },
+    },
+    {
+      kind: "keywords",
+      id: "niche",
+      label: "Niche fit",
+      signal: "niche",
+      weight: 15,
+      keywords: [
+        "apparel",
+        "fashion",
+        "beauty",
+        "skincare",
+        "fitness",
+        "jewelry",
+      ],
+      matched: { score: 1, reason: "Niche matches a target market" },
+      unmatched: { score: 0.5, reason: "Niche outside target markets" },
+      missing: { score: 0, reason: "Niche unknown" },
+    },
+    {
+      kind: "boolean",
+      id: "verified",
+      label: "Verified account",
+      signal: "verified",
+      weight: 5,
+      whenTrue: { score: 1, reason: "Verified account" },
+      whenFalse: { score: 0, reason: "Not verified" },
+    },
+    {
+      kind: "boolean",
+      id: "public_account",
+      label: "Public account",
+      signal: "restricted",
+      weight: 0,
+      whenTrue: { score: 0, reason: "Private account" },
+      whenFalse: { score: 1, reason: "Public account" },
+      disqualifyWhen: true,
+    },
+  ],
+  tiers: [
+    { name: "A", minScore: 75 },
+    { name: "B", minScore: 50 },
+    { name: "C", minScore: 25 },
+    { name: "D", minScore: 0 },
+  ],
+  disqualifiedTier: "disqualified",
+};
+
+// QUALIFICATION_RUBRIC (JSON) replaces the default rubric without a deploy
+export const loadRubric = (env: Env): Rubric => {
+  if (!env.QUALIFICATION_RUBRIC) return DEFAULT_RUBRIC;
+
+  const parsed = rubricSchema.safeParse(JSON.parse(env.QUALIFICATION_RUBRIC));
+  if (!parsed.success) {
+    throw new Error(`Invalid QUALIFICATION_RUBRIC: ${parsed.error.message}`);
+  }
+  return parsed.data;
+};
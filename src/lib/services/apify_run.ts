@@ -0,0 +1,120 @@
+import type { ApifyStage } from "@/lib/enrichment/types";
+
+export const APIFY_RUN_QUERIES = {
+  BASE_SELECT: `SELECT * FROM apify_runs`,
+  INSERT_RUN: `
+    INSERT INTO apify_runs 
+    (run_id, stage, lead_id, username, external_url, workflow_instance_id, status) 
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `,
+  // Only one caller (webhook or workflow poll) gets to finish a run
+  CLAIM_RUN: `
+    UPDATE apify_runs 
+    SET status = ?, completed_at = CURRENT_TIMESTAMP 
+    WHERE run_id = ? AND completed_at IS NULL
+  `,
+  RELEASE_RUN: `
+    UPDATE apify_runs 
+    SET completed_at = NULL 
+    WHERE run_id = ?
+  `,
+  UPDATE_RESULT: `
+    UPDATE apify_runs 
+    SET result = ? 
+    WHERE run_id = ?
+  `,
+};
+
+export type ApifyRunRecord = {
+  run_id: string;
+  stage: ApifyStage;
+  lead_id: string | null;
+  username: string | null;
+  external_url: string | null;
+  workflow_instance_id: string | null;
+  status: string;
+  result: unknown;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const processApifyRunResult = (row: any): ApifyRunRecord => ({
+  ...row,
+  result: row.result ? JSON.parse(row.result) : null,
+});
+
+export class ApifyRunService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  async getByRunId(runId: string) {
+    const query = `${APIFY_RUN_QUERIES.BASE_SELECT} WHERE run_id = ?`;
+    const response = await this.DB.prepare(query).bind(runId).all();
+
+    if (response.success && response.results.length) {
+      return processApifyRunResult(response.results[0]);
+    }
+    return null;
+  }
+
+  async create(runData: {
+    runId: string;
+    stage: ApifyStage;
+    status: string;
+    leadId?: string;
+    username?: string;
+    externalUrl?: string;
+    workflowInstanceId?: string;
+  }) {
+    const response = await this.DB.prepare(APIFY_RUN_QUERIES.INSERT_RUN)
+      .bind(
+        runData.runId,
+        runData.stage,
+        runData.leadId || null,
+        runData.username || null,
+        runData.externalUrl || null,
+        runData.workflowInstanceId || null,
+        runData.status,
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to record Apify run");
+    }
+
+    return { success: true };
+  }
+
+  // Returns false when the run was already claimed by another caller
+  async claim(runId: string, status: string) {
+    const response = await this.DB.prepare(APIFY_RUN_QUERIES.CLAIM_RUN)
+      .bind(status, runId)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to claim Apify run");
+    }
+
+    return response.meta.changes > 0;
+  }
+
+  async release(runId: string) {
+    await this.DB.prepare(APIFY_RUN_QUERIES.RELEASE_RUN).bind(runId).run();
+  }
+
+  async saveResult(runId: string, result: unknown) {
+    const response = await this.DB.prepare(APIFY_RUN_QUERIES.UPDATE_RESULT)
+      .bind(JSON.stringify(result), runId)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to save Apify run result");
+    }
+
+    return { success: true };
+  }
+}
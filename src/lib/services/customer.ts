@@ -13,13 +13,14 @@ export const CUSTOMER_QUERIES = {
     LEFT JOIN subscriptions
       ON customer_subscriptions.subscription_id = subscriptions.id
   `,
-  INSERT_CUSTOMER: `INSERT INTO customers (name, email, notes) VALUES (?, ?, ?)`,
+  INSERT_CUSTOMER: `INSERT INTO customers (name, email, notes, lead_id) VALUES (?, ?, ?, ?)`,
   INSERT_CUSTOMER_SUBSCRIPTION: `
     INSERT INTO customer_subscriptions (customer_id, subscription_id, status) 
     VALUES (?, ?, ?)
   `,
   GET_BY_ID: `WHERE customers.id = ?`,
   GET_BY_EMAIL: `WHERE customers.email = ?`,
+  GET_BY_LEAD_ID: `WHERE customers.lead_id = ?`,
 };
 
 const processCustomerResults = (rows: any[]) => {
@@ -80,6 +81,18 @@ export class CustomerService {
     return null;
   }
 
+  // The customer a lead was converted into, if any
+  async getByLeadId(leadId: string) {
+    const query = `${CUSTOMER_QUERIES.BASE_SELECT} ${CUSTOMER_QUERIES.GET_BY_LEAD_ID}`;
+    const response = await this.DB.prepare(query).bind(leadId).all();
+
+    if (response.success) {
+      const [customer] = processCustomerResults(response.results);
+      return customer ?? null;
+    }
+    return null;
+  }
+
   async getAll() {
     const query = `${CUSTOMER_QUERIES.BASE_SELECT} ORDER BY customers.id ASC`;
     const response = await this.DB.prepare(query).all();
@@ -94,17 +107,19 @@ export class CustomerService {
     name: string;
     email: string;
     notes?: string;
+    // Set when the customer was converted from a lead
+    leadId?: string;
     subscription?: {
       id: number;
       status: string;
     };
   }) {
-    const { name, email, notes, subscription } = customerData;
+    const { name, email, notes, leadId, subscription } = customerData;
 
     const customerResponse = await this.DB.prepare(
       CUSTOMER_QUERIES.INSERT_CUSTOMER,
     )
-      .bind(name, email, notes || null)
+      .bind(name, email, notes || null, leadId || null)
       .run();
 
     if (!customerResponse.success) {
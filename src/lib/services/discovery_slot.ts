@@ -0,0 +1,58 @@
+export const DISCOVERY_SLOT_QUERIES = {
+  // Only inserts while the seed is under its cap
+  RESERVE: `
+    INSERT OR IGNORE INTO discovery_slots (seed_lead_id, username)
+    SELECT ?, ?
+    WHERE (SELECT COUNT(*) FROM discovery_slots WHERE seed_lead_id = ?) < ?
+  `,
+  GET_RESERVED: (count: number) => `
+    SELECT username FROM discovery_slots
+    WHERE seed_lead_id = ? AND username IN (${Array(count).fill("?").join(", ")})
+  `,
+};
+
+// D1 binds at most 100 parameters per statement; one goes to the seed
+const USERNAME_CHUNK_SIZE = 99;
+
+export class DiscoverySlotService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  /**
+   * Reserves a slot under the seed's cap for each username, in order, until
+   * the cap is reached. The inserts run as one batch, so sibling crawls of
+   * the same seed can't reserve more than maxPerSeed between them. Returns
+   * the usernames holding a slot, including ones reserved by an earlier try.
+   */
+  async reserve(seedLeadId: string, usernames: string[], maxPerSeed: number) {
+    if (!usernames.length) return [];
+
+    const reserve = this.DB.prepare(DISCOVERY_SLOT_QUERIES.RESERVE);
+    const responses = await this.DB.batch(
+      usernames.map((username) =>
+        reserve.bind(seedLeadId, username, seedLeadId, maxPerSeed),
+      ),
+    );
+    if (responses.some((response) => !response.success)) {
+      throw new Error("Failed to reserve discovery slots");
+    }
+
+    const reserved = new Set<string>();
+    for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+      const chunk = usernames.slice(i, i + USERNAME_CHUNK_SIZE);
+      const response = await this.DB.prepare(
+        DISCOVERY_SLOT_QUERIES.GET_RESERVED(chunk.length),
+      )
+        .bind(seedLeadId, ...chunk)
+        .all<{ username: string }>();
+      if (!response.success) {
+        throw new Error("Failed to load discovery slots");
+      }
+      response.results.forEach(({ username }) => reserved.add(username));
+    }
+    return usernames.filter((username) => reserved.has(username));
+  }
+}
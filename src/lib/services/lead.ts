@@ -0,0 +1,364 @@
+import type {
+  AiAnalysis,
+  Contact,
+  ProfileData,
+  Reel,
+  ReelMetrics,
+  StageStatus,
+  WebsiteData,
+  WebsiteSummaryRecord,
+} from "@/lib/enrichment/types";
+import {
+  likePattern,
+  type LeadCursor,
+  type LeadFilters,
+  type LeadListOptions,
+} from "@/lib/leads/filters";
+import type { Qualification } from "@/lib/qualification/engine";
+
+export type Lead = {
+  id: string;
+  username: string;
+  raw_data: ProfileData | null;
+  profile_picture_key: string | null;
+  profile_picture_url: string | null;
+  reels: Reel[] | null;
+  reels_metrics: ReelMetrics | null;
+  er_avg: number | null;
+  has_reels: boolean | null;
+  website_data: WebsiteData | null;
+  has_website: boolean | null;
+  website_summary: WebsiteSummaryRecord | null;
+  openai: AiAnalysis | null;
+  ai_analysis_complete: boolean;
+  qualification: Qualification | null;
+  qualification_score: number | null;
+  qualification_tier: string | null;
+  // Contacts extracted from the bio and website; see src/lib/enrichment/contacts.ts
+  contacts: Contact[] | null;
+  // Set on leads found by related-profile discovery
+  seed_lead_id: string | null;
+  discovery_depth: number | null;
+  // Set once the lead has been converted into a customer
+  customer_id: number | null;
+  // Enrichment status per stage; null until the stage first runs
+  profile_status: StageStatus | null;
+  reels_status: StageStatus | null;
+  website_status: StageStatus | null;
+  ai_status: StageStatus | null;
+  qualify_status: StageStatus | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Every column, for reads that return the whole lead
+export const LEAD_COLUMNS: (keyof Lead)[] = [
+  "id",
+  "username",
+  "raw_data",
+  "profile_picture_key",
+  "profile_picture_url",
+  "reels",
+  "reels_metrics",
+  "er_avg",
+  "has_reels",
+  "website_data",
+  "has_website",
+  "website_summary",
+  "openai",
+  "ai_analysis_complete",
+  "qualification",
+  "qualification_score",
+  "qualification_tier",
+  "contacts",
+  "seed_lead_id",
+  "discovery_depth",
+  "customer_id",
+  "profile_status",
+  "reels_status",
+  "website_status",
+  "ai_status",
+  "qualify_status",
+  "created_at",
+  "updated_at",
+];
+
+export type LeadFields = Partial<
+  Omit<Lead, "id" | "created_at" | "updated_at">
+>;
+
+// Stored as JSON text in D1
+const JSON_COLUMNS = [
+  "raw_data",
+  "reels",
+  "reels_metrics",
+  "website_data",
+  "website_summary",
+  "openai",
+  "qualification",
+  "contacts",
+  "profile_status",
+  "reels_status",
+  "website_status",
+  "ai_status",
+  "qualify_status",
+];
+
+// Stored as 0/1 in D1
+const BOOLEAN_COLUMNS = ["has_reels", "has_website", "ai_analysis_complete"];
+
+// Columns callers may write; anything else in a fields object is ignored
+const WRITABLE_COLUMNS = [
+  "username",
+  "raw_data",
+  "profile_picture_key",
+  "profile_picture_url",
+  "reels",
+  "reels_metrics",
+  "er_avg",
+  "has_reels",
+  "website_data",
+  "has_website",
+  "website_summary",
+  "openai",
+  "ai_analysis_complete",
+  "qualification",
+  "qualification_score",
+  "qualification_tier",
+  "contacts",
+  "seed_lead_id",
+  "discovery_depth",
+  "customer_id",
+  "profile_status",
+  "reels_status",
+  "website_status",
+  "ai_status",
+  "qualify_status",
+];
+
+const USERNAME_CHUNK_SIZE = 50;
+const INSERT_CHUNK_SIZE = 100;
+
+export const LEAD_QUERIES = {
+  BASE_SELECT: `SELECT * FROM leads`,
+  GET_BY_ID: `WHERE leads.id = ?`,
+  GET_BY_USERNAME: `WHERE leads.username = ?`,
+  DELETE_LEAD: `DELETE FROM leads WHERE id = ?`,
+  INSERT_USERNAME: `INSERT OR IGNORE INTO leads (id, username) VALUES (?, ?)`,
+};
+
+const toColumnValue = (column: string, value: unknown) => {
+  if (value === undefined || value === null) return null;
+  if (JSON_COLUMNS.includes(column)) return JSON.stringify(value);
+  if (BOOLEAN_COLUMNS.includes(column)) return value ? 1 : 0;
+  return value;
+};
+
+const writableEntries = (fields: Record<string, unknown>) =>
+  Object.entries(fields).filter(
+    ([column, value]) =>
+      WRITABLE_COLUMNS.includes(column) && value !== undefined,
+  );
+
+const buildWhere = (filters: LeadFilters = {}, after?: LeadCursor) => {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (after) {
+    conditions.push(
+      `(leads.created_at < ? OR (leads.created_at = ? AND leads.id > ?))`,
+    );
+    values.push(after.created_at, after.created_at, after.id);
+  }
+  if (filters.username !== undefined) {
+    conditions.push(`LOWER(leads.username) LIKE ? ESCAPE '\\'`);
+    values.push(likePattern(filters.username.toLowerCase()));
+  }
+  if (filters.tier !== undefined) {
+    conditions.push(`leads.qualification_tier = ?`);
+    values.push(filters.tier);
+  }
+  if (filters.minScore !== undefined) {
+    conditions.push(`leads.qualification_score >= ?`);
+    values.push(filters.minScore);
+  }
+  if (filters.hasWebsite !== undefined) {
+    conditions.push(`leads.has_website = ?`);
+    values.push(filters.hasWebsite ? 1 : 0);
+  }
+  if (filters.seedLeadId !== undefined) {
+    conditions.push(`leads.seed_lead_id = ?`);
+    values.push(filters.seedLeadId);
+  }
+  if (filters.converted !== undefined) {
+    conditions.push(
+      `leads.customer_id IS ${filters.converted ? "NOT NULL" : "NULL"}`,
+    );
+  }
+
+  return {
+    where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+    values,
+  };
+};
+
+const processLeadResults = (rows: any[]): Lead[] =>
+  rows.map((row) => {
+    const lead = { ...row };
+    for (const column of JSON_COLUMNS) {
+      lead[column] = row[column] ? JSON.parse(row[column]) : null;
+    }
+    for (const column of BOOLEAN_COLUMNS) {
+      lead[column] = row[column] === null ? null : Boolean(row[column]);
+    }
+    return lead;
+  });
+
+export class LeadService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  async getById(id: string) {
+    const query = `${LEAD_QUERIES.BASE_SELECT} ${LEAD_QUERIES.GET_BY_ID}`;
+    const response = await this.DB.prepare(query).bind(id).all();
+
+    if (response.success) {
+      const [lead] = processLeadResults(response.results);
+      return lead ?? null;
+    }
+    return null;
+  }
+
+  async getByUsername(username: string) {
+    const query = `${LEAD_QUERIES.BASE_SELECT} ${LEAD_QUERIES.GET_BY_USERNAME}`;
+    const response = await this.DB.prepare(query).bind(username).all();
+
+    if (response.success) {
+      const [lead] = processLeadResults(response.results);
+      return lead ?? null;
+    }
+    return null;
+  }
+
+  // Returns which of the given usernames already belong to a lead, with its id
+  async getExistingUsernames(usernames: string[]) {
+    const existing = new Map<string, string>();
+
+    // Stay well under D1's limit on bound parameters per query
+    for (let i = 0; i < usernames.length; i += USERNAME_CHUNK_SIZE) {
+      const chunk = usernames.slice(i, i + USERNAME_CHUNK_SIZE);
+      const response = await this.DB.prepare(
+        `SELECT id, username FROM leads WHERE username IN (${chunk.map(() => "?").join(", ")})`,
+      )
+        .bind(...chunk)
+        .all<{ id: string; username: string }>();
+
+      if (!response.success) {
+        throw new Error("Failed to look up lead usernames");
+      }
+      response.results.forEach(({ id, username }) =>
+        existing.set(username, id),
+      );
+    }
+
+    return existing;
+  }
+
+  async getAll({ filters, limit, offset = 0, after }: LeadListOptions = {}) {
+    const { where, values } = buildWhere(filters, after);
+    const page = limit === undefined ? "" : `LIMIT ? OFFSET ?`;
+    const query = `${LEAD_QUERIES.BASE_SELECT} ${where} ORDER BY leads.created_at DESC, leads.id ${page}`;
+    const response = await this.DB.prepare(query)
+      .bind(...values, ...(limit === undefined ? [] : [limit, offset]))
+      .all();
+
+    if (response.success) {
+      return processLeadResults(response.results);
+    }
+    return [];
+  }
+
+  async create(leadData: { username: string } & LeadFields) {
+    const id = crypto.randomUUID();
+    const entries = writableEntries(leadData);
+    const columns = ["id", ...entries.map(([column]) => column)];
+    const values = [
+      id,
+      ...entries.map(([column, value]) => toColumnValue(column, value)),
+    ];
+
+    const response = await this.DB.prepare(
+      `INSERT INTO leads (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    )
+      .bind(...values)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to create lead");
+    }
+
+    return { success: true, leadId: id };
+  }
+
+  // Pending leads for many usernames, a batch of inserts at a time; returns
+  // username → new id for the usernames that weren't taken yet
+  async createMany(usernames: string[]) {
+    const ids = new Map<string, string>();
+
+    for (let i = 0; i < usernames.length; i += INSERT_CHUNK_SIZE) {
+      const rows = usernames
+        .slice(i, i + INSERT_CHUNK_SIZE)
+        .map((username) => ({ id: crypto.randomUUID(), username }));
+      const responses = await this.DB.batch(
+        rows.map(({ id, username }) =>
+          this.DB.prepare(LEAD_QUERIES.INSERT_USERNAME).bind(id, username),
+        ),
+      );
+
+      if (responses.some((response) => !response.success)) {
+        throw new Error("Failed to create leads");
+      }
+      rows.forEach(({ id, username }, j) => {
+        if (responses[j].meta.changes > 0) ids.set(username, id);
+      });
+    }
+
+    return ids;
+  }
+
+  async update(id: string, fields: LeadFields) {
+    const entries = writableEntries(fields);
+    if (!entries.length) return { success: true };
+
+    const assignments = entries.map(([column]) => `${column} = ?`).join(", ");
+    const response = await this.DB.prepare(
+      `UPDATE leads SET ${assignments} WHERE id = ?`,
+    )
+      .bind(
+        ...entries.map(([column, value]) => toColumnValue(column, value)),
+        id,
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to update lead");
+    }
+
+    return { success: true };
+  }
+
+  async delete(id: string) {
+    const response = await this.DB.prepare(LEAD_QUERIES.DELETE_LEAD)
+      .bind(id)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to delete lead");
+    }
+
+    return { success: true, deleted: response.meta.changes > 0 };
+  }
+}
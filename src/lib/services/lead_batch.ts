@@ -0,0 +1,206 @@
+import {
+  BATCH_STAGES,
+  type BatchItemStatus,
+  type BatchProgress,
+  type LeadBatchMessage,
+  type StageOutcomes,
+} from "@/lib/batch/types";
+
+export const LEAD_BATCH_QUERIES = {
+  INSERT_BATCH: `INSERT INTO lead_batches (id, total) VALUES (?, ?)`,
+  INSERT_ITEM: `
+    INSERT INTO lead_batch_items (id, batch_id, username, lead_id) 
+    VALUES (?, ?, ?, ?)
+  `,
+  GET_BATCH: `SELECT * FROM lead_batches WHERE id = ?`,
+  GET_ITEMS: `SELECT status, stages FROM lead_batch_items WHERE batch_id = ?`,
+  UPDATE_ITEM: `
+    UPDATE lead_batch_items 
+    SET status = ?, stages = ?, error = ? 
+    WHERE id = ?
+  `,
+  // Starts a pending item while fewer than ? of its batch are running. An item
+  // already running is claimed again, so a redelivered message restarts it
+  CLAIM_ITEM: `
+    UPDATE lead_batch_items
+    SET status = 'running'
+    WHERE id = ? AND (
+      status = 'running' OR (
+        status = 'pending' AND (
+          SELECT COUNT(*) FROM lead_batch_items AS sibling
+          WHERE sibling.batch_id = lead_batch_items.batch_id
+            AND sibling.status = 'running'
+        ) < ?
+      )
+    )
+  `,
+  // The oldest pending item of the given item's batch, under the same limit
+  CLAIM_NEXT_ITEM: `
+    UPDATE lead_batch_items
+    SET status = 'running'
+    WHERE id = (
+      SELECT candidate.id FROM lead_batch_items AS candidate
+      WHERE candidate.batch_id = (
+        SELECT batch_id FROM lead_batch_items WHERE id = ?
+      ) AND candidate.status = 'pending'
+      ORDER BY candidate.rowid
+      LIMIT 1
+    ) AND (
+      SELECT COUNT(*) FROM lead_batch_items AS sibling
+      WHERE sibling.batch_id = lead_batch_items.batch_id
+        AND sibling.status = 'running'
+    ) < ?
+    RETURNING id, batch_id, username, lead_id
+  `,
+  RELEASE_ITEM: `
+    UPDATE lead_batch_items 
+    SET status = 'pending' 
+    WHERE id = ? AND status = 'running'
+  `,
+};
+
+export class LeadBatchService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  // Records the batch and one pending item per lead; returns the queue messages to send
+  async create(
+    leads: { username: string; leadId: string }[],
+  ): Promise<{ batchId: string; messages: LeadBatchMessage[] }> {
+    const batchId = crypto.randomUUID();
+    const messages = leads.map(({ username, leadId }) => ({
+      batchId,
+      itemId: crypto.randomUUID(),
+      username,
+      leadId,
+    }));
+
+    const insertItem = this.DB.prepare(LEAD_BATCH_QUERIES.INSERT_ITEM);
+    const responses = await this.DB.batch([
+      this.DB.prepare(LEAD_BATCH_QUERIES.INSERT_BATCH).bind(
+        batchId,
+        leads.length,
+      ),
+      ...messages.map(({ itemId, username, leadId }) =>
+        insertItem.bind(itemId, batchId, username, leadId),
+      ),
+    ]);
+
+    if (!responses.every((response) => response.success)) {
+      throw new Error("Failed to create lead batch");
+    }
+
+    return { batchId, messages };
+  }
+
+  async updateItem(
+    itemId: string,
+    status: BatchItemStatus,
+    stages: StageOutcomes = {},
+    error: string | null = null,
+  ) {
+    const response = await this.DB.prepare(LEAD_BATCH_QUERIES.UPDATE_ITEM)
+      .bind(status, JSON.stringify(stages), error, itemId)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to update lead batch item");
+    }
+
+    return { success: true };
+  }
+
+  // Whether the item may start now; see CLAIM_ITEM
+  async claimItem(itemId: string, concurrency: number) {
+    const response = await this.DB.prepare(LEAD_BATCH_QUERIES.CLAIM_ITEM)
+      .bind(itemId, concurrency)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to claim lead batch item");
+    }
+
+    return response.meta.changes > 0;
+  }
+
+  // Claims the next pending item in the same batch as itemId, if a slot is free
+  async claimNextItem(
+    itemId: string,
+    concurrency: number,
+  ): Promise<LeadBatchMessage | null> {
+    const item = await this.DB.prepare(LEAD_BATCH_QUERIES.CLAIM_NEXT_ITEM)
+      .bind(itemId, concurrency)
+      .first<{
+        id: string;
+        batch_id: string;
+        username: string;
+        lead_id: string;
+      }>();
+    if (!item) return null;
+
+    return {
+      batchId: item.batch_id,
+      itemId: item.id,
+      username: item.username,
+      leadId: item.lead_id,
+    };
+  }
+
+  // Puts a claimed item back to pending when its workflow couldn't be started
+  async releaseItem(itemId: string) {
+    const response = await this.DB.prepare(LEAD_BATCH_QUERIES.RELEASE_ITEM)
+      .bind(itemId)
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to release lead batch item");
+    }
+
+    return { success: true };
+  }
+
+  async getProgress(batchId: string): Promise<BatchProgress | null> {
+    const batch = await this.DB.prepare(LEAD_BATCH_QUERIES.GET_BATCH)
+      .bind(batchId)
+      .first<{ id: string; total: number; created_at: string }>();
+    if (!batch) return null;
+
+    const response = await this.DB.prepare(LEAD_BATCH_QUERIES.GET_ITEMS)
+      .bind(batchId)
+      .all<{ status: BatchItemStatus; stages: string | null }>();
+
+    if (!response.success) {
+      throw new Error("Failed to load lead batch items");
+    }
+
+    const progress: BatchProgress = {
+      batchId,
+      total: batch.total,
+      pending: 0,
+      running: 0,
+      done: 0,
+      failed: 0,
+      stages: Object.fromEntries(
+        BATCH_STAGES.map((stage) => [
+          stage,
+          { succeeded: 0, skipped: 0, failed: 0 },
+        ]),
+      ) as BatchProgress["stages"],
+      createdAt: batch.created_at,
+    };
+
+    for (const item of response.results) {
+      progress[item.status]++;
+      const stages: StageOutcomes = item.stages ? JSON.parse(item.stages) : {};
+      for (const stage of BATCH_STAGES) {
+        const outcome = stages[stage];
+        if (outcome) progress.stages[stage][outcome]++;
+      }
+    }
+
+    return progress;
+  }
+}
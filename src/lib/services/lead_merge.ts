@@ -0,0 +1,45 @@
+// D1 tables that point at a lead; merging duplicates moves their rows to the kept lead
+const LEAD_REFERENCES = [
+  "apify_runs",
+  "lead_batch_items",
+  "reels_snapshots",
+  "llm_usage",
+  "customers",
+];
+
+export const LEAD_MERGE_QUERIES = {
+  REASSIGN: (table: string) =>
+    `UPDATE ${table} SET lead_id = ? WHERE lead_id = ?`,
+};
+
+export class LeadMergeService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  // Points every D1 row referencing one of fromIds at toId, in one batch
+  async reassign(fromIds: string[], toId: string) {
+    if (!fromIds.length) return { success: true, reassigned: 0 };
+
+    const statements = fromIds.flatMap((fromId) =>
+      LEAD_REFERENCES.map((table) =>
+        this.DB.prepare(LEAD_MERGE_QUERIES.REASSIGN(table)).bind(toId, fromId),
+      ),
+    );
+    const responses = await this.DB.batch(statements);
+
+    if (responses.some((response) => !response.success)) {
+      throw new Error("Failed to reassign lead references");
+    }
+
+    return {
+      success: true,
+      reassigned: responses.reduce(
+        (sum, response) => sum + response.meta.changes,
+        0,
+      ),
+    };
+  }
+}
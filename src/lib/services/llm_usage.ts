@@ -0,0 +1,105 @@
+export const LLM_USAGE_QUERIES = {
+  INSERT_USAGE: `
+    INSERT INTO llm_usage (provider, model, task, route, lead_id, input_tokens, output_tokens, cost_usd) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  // The day window lies inside the month window
+  GET_SPEND: `
+    SELECT 
+      COALESCE(SUM(CASE WHEN created_at >= ? THEN cost_usd ELSE 0 END), 0) AS day, 
+      COALESCE(SUM(cost_usd), 0) AS month 
+    FROM llm_usage 
+    WHERE created_at >= ?
+  `,
+  SUMMARY_COLUMNS: `
+    COUNT(*) AS calls, 
+    SUM(input_tokens) AS input_tokens, 
+    SUM(output_tokens) AS output_tokens, 
+    COALESCE(SUM(cost_usd), 0) AS cost_usd
+  `,
+};
+
+export type LlmUsageRecord = {
+  provider: string;
+  model: string;
+  task: string;
+  route: string | null;
+  leadId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+};
+
+export type LlmSpendRow = {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+const processSpendResults = (rows: any[]): LlmSpendRow[] =>
+  rows.map((row) => ({
+    key: row.key ?? "unknown",
+    calls: row.calls,
+    inputTokens: row.input_tokens ?? 0,
+    outputTokens: row.output_tokens ?? 0,
+    costUsd: row.cost_usd ?? 0,
+  }));
+
+// D1's CURRENT_TIMESTAMP format, so string comparison works on created_at
+export const toSqlTimestamp = (date: Date) =>
+  date.toISOString().replace("T", " ").substring(0, 19);
+
+export class LlmUsageService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  async create(record: LlmUsageRecord) {
+    const response = await this.DB.prepare(LLM_USAGE_QUERIES.INSERT_USAGE)
+      .bind(
+        record.provider,
+        record.model,
+        record.task,
+        record.route,
+        record.leadId,
+        record.inputTokens,
+        record.outputTokens,
+        record.costUsd,
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to record LLM usage");
+    }
+
+    return { success: true };
+  }
+
+  // Spend since the start of the given day and month
+  async getSpend(dayStart: Date, monthStart: Date) {
+    const row = await this.DB.prepare(LLM_USAGE_QUERIES.GET_SPEND)
+      .bind(toSqlTimestamp(dayStart), toSqlTimestamp(monthStart))
+      .first<{ day: number; month: number }>();
+    return { day: row?.day ?? 0, month: row?.month ?? 0 };
+  }
+
+  // Totals since `since`, grouped by day, model or route
+  async getSpendBy(group: "day" | "model" | "route", since: Date) {
+    const key = group === "day" ? "DATE(created_at)" : group;
+    const order = group === "day" ? "key DESC" : "cost_usd DESC";
+    const response = await this.DB.prepare(
+      `SELECT ${key} AS key, ${LLM_USAGE_QUERIES.SUMMARY_COLUMNS} FROM llm_usage WHERE created_at >= ? GROUP BY key ORDER BY ${order}`,
+    )
+      .bind(toSqlTimestamp(since))
+      .all();
+
+    if (response.success) {
+      return processSpendResults(response.results);
+    }
+    return [];
+  }
+}
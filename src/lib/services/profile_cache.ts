@@ -0,0 +1,67 @@
+import type {
+  ProfileData,
+  ProfileStageResult,
+  RelatedProfile,
+} from "@/lib/enrichment/types";
+
+export const PROFILE_CACHE_QUERIES = {
+  GET_ENTRY: `SELECT * FROM profile_cache WHERE username = ?`,
+  UPSERT_ENTRY: `
+    INSERT INTO profile_cache (username, data, related_accounts, upload, scraped_at) 
+    VALUES (?, ?, ?, ?, ?) 
+    ON CONFLICT(username) DO UPDATE SET 
+      data = excluded.data, 
+      related_accounts = excluded.related_accounts, 
+      upload = excluded.upload, 
+      scraped_at = excluded.scraped_at
+  `,
+};
+
+export type ProfileCacheEntry = {
+  username: string;
+  data: ProfileData;
+  relatedAccounts: RelatedProfile[];
+  upload: ProfileStageResult["upload"] | null;
+  scrapedAt: string;
+};
+
+const processProfileCacheResult = (row: any): ProfileCacheEntry => ({
+  username: row.username,
+  data: JSON.parse(row.data),
+  relatedAccounts: row.related_accounts ? JSON.parse(row.related_accounts) : [],
+  upload: row.upload ? JSON.parse(row.upload) : null,
+  scrapedAt: row.scraped_at,
+});
+
+export class ProfileCacheService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  async get(username: string) {
+    const row = await this.DB.prepare(PROFILE_CACHE_QUERIES.GET_ENTRY)
+      .bind(username)
+      .first();
+    return row ? processProfileCacheResult(row) : null;
+  }
+
+  async put(entry: ProfileCacheEntry) {
+    const response = await this.DB.prepare(PROFILE_CACHE_QUERIES.UPSERT_ENTRY)
+      .bind(
+        entry.username,
+        JSON.stringify(entry.data),
+        JSON.stringify(entry.relatedAccounts),
+        entry.upload ? JSON.stringify(entry.upload) : null,
+        entry.scrapedAt,
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to cache profile");
+    }
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,129 @@
+import type { PromptName, PromptTemplate } from "@/lib/prompts/types";
+
+export const PROMPT_TEMPLATE_QUERIES = {
+  BASE_SELECT: `SELECT * FROM prompt_templates`,
+  GET_BY_ID: `WHERE id = ?`,
+  GET_ACTIVE: `WHERE name = ? AND is_active = 1`,
+  // Next version for the name, computed in the same statement
+  INSERT_VERSION: `
+    INSERT INTO prompt_templates (name, version, system_prompt, user_prompt, variables, notes) 
+    SELECT ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ? 
+    FROM prompt_templates WHERE name = ? 
+    RETURNING *
+  `,
+  INSERT_DEFAULT: `
+    INSERT OR IGNORE INTO prompt_templates (name, version, system_prompt, user_prompt, variables, is_active) 
+    VALUES (?, 1, ?, ?, ?, 1)
+  `,
+  DEACTIVATE_NAME: `
+    UPDATE prompt_templates SET is_active = 0 
+    WHERE is_active = 1 AND name = (SELECT name FROM prompt_templates WHERE id = ?)
+  `,
+  ACTIVATE: `UPDATE prompt_templates SET is_active = 1 WHERE id = ?`,
+};
+
+const processPromptTemplateResult = (row: any): PromptTemplate => ({
+  id: row.id,
+  name: row.name,
+  version: row.version,
+  systemPrompt: row.system_prompt,
+  userPrompt: row.user_prompt,
+  variables: JSON.parse(row.variables),
+  notes: row.notes,
+  isActive: Boolean(row.is_active),
+  createdAt: row.created_at,
+});
+
+export class PromptTemplateService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  async getAll() {
+    const query = `${PROMPT_TEMPLATE_QUERIES.BASE_SELECT} ORDER BY name ASC, version DESC`;
+    const response = await this.DB.prepare(query).all();
+
+    if (response.success) {
+      return response.results.map(processPromptTemplateResult);
+    }
+    return [];
+  }
+
+  async getById(id: number) {
+    const query = `${PROMPT_TEMPLATE_QUERIES.BASE_SELECT} ${PROMPT_TEMPLATE_QUERIES.GET_BY_ID}`;
+    const row = await this.DB.prepare(query).bind(id).first();
+    return row ? processPromptTemplateResult(row) : null;
+  }
+
+  async getActive(name: PromptName) {
+    const query = `${PROMPT_TEMPLATE_QUERIES.BASE_SELECT} ${PROMPT_TEMPLATE_QUERIES.GET_ACTIVE}`;
+    const row = await this.DB.prepare(query).bind(name).first();
+    return row ? processPromptTemplateResult(row) : null;
+  }
+
+  // Stores a new, inactive version numbered after the latest one
+  async create(
+    template: Pick<
+      PromptTemplate,
+      "name" | "systemPrompt" | "userPrompt" | "variables" | "notes"
+    >,
+  ) {
+    const row = await this.DB.prepare(PROMPT_TEMPLATE_QUERIES.INSERT_VERSION)
+      .bind(
+        template.name,
+        template.systemPrompt,
+        template.userPrompt,
+        JSON.stringify(template.variables),
+        template.notes,
+        template.name,
+      )
+      .first();
+
+    if (!row) {
+      throw new Error("Failed to create prompt template");
+    }
+
+    return processPromptTemplateResult(row);
+  }
+
+  // Stores the built-in version 1 as active; a no-op if it already exists
+  async createDefault(
+    template: Pick<
+      PromptTemplate,
+      "name" | "systemPrompt" | "userPrompt" | "variables"
+    >,
+  ) {
+    const response = await this.DB.prepare(
+      PROMPT_TEMPLATE_QUERIES.INSERT_DEFAULT,
+    )
+      .bind(
+        template.name,
+        template.systemPrompt,
+        template.userPrompt,
+        JSON.stringify(template.variables),
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to create default prompt template");
+    }
+
+    return { success: true };
+  }
+
+  // Makes this version the only active one for its name
+  async activate(id: number) {
+    const responses = await this.DB.batch([
+      this.DB.prepare(PROMPT_TEMPLATE_QUERIES.DEACTIVATE_NAME).bind(id),
+      this.DB.prepare(PROMPT_TEMPLATE_QUERIES.ACTIVATE).bind(id),
+    ]);
+
+    if (!responses.every((response) => response.success)) {
+      throw new Error("Failed to activate prompt template");
+    }
+
+    return { success: true, activated: responses[1].meta.changes > 0 };
+  }
+}
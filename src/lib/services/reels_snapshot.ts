@@ -0,0 +1,78 @@
+import type { Reel, ReelMetrics } from "@/lib/enrichment/types";
+
+export const REELS_SNAPSHOT_QUERIES = {
+  INSERT_SNAPSHOT: `
+    INSERT INTO reels_snapshots (lead_id, username, er_avg, metrics, reels) 
+    VALUES (?, ?, ?, ?, ?)
+  `,
+  GET_BY_LEAD_ID: `
+    SELECT * FROM reels_snapshots 
+    WHERE lead_id = ? 
+    ORDER BY taken_at ASC, id ASC
+  `,
+};
+
+export type ReelsSnapshot = {
+  id: number;
+  lead_id: string | null;
+  username: string | null;
+  er_avg: number | null;
+  metrics: ReelMetrics;
+  reels: Reel[];
+  taken_at: string;
+};
+
+const processReelsSnapshotResults = (rows: any[]): ReelsSnapshot[] =>
+  rows.map((row) => ({
+    ...row,
+    metrics: JSON.parse(row.metrics),
+    reels: JSON.parse(row.reels),
+  }));
+
+export class ReelsSnapshotService {
+  private DB: D1Database;
+
+  constructor(DB: D1Database) {
+    this.DB = DB;
+  }
+
+  // Oldest first, ready to chart
+  async getByLeadId(leadId: string) {
+    const response = await this.DB.prepare(
+      REELS_SNAPSHOT_QUERIES.GET_BY_LEAD_ID,
+    )
+      .bind(leadId)
+      .all();
+
+    if (response.success) {
+      return processReelsSnapshotResults(response.results);
+    }
+    return [];
+  }
+
+  async create(snapshot: {
+    leadId: string | null;
+    username: string | null;
+    erAvg: number | null;
+    metrics: ReelMetrics;
+    reels: Reel[];
+  }) {
+    const response = await this.DB.prepare(
+      REELS_SNAPSHOT_QUERIES.INSERT_SNAPSHOT,
+    )
+      .bind(
+        snapshot.leadId,
+        snapshot.username,
+        snapshot.erAvg,
+        JSON.stringify(snapshot.metrics),
+        JSON.stringify(snapshot.reels),
+      )
+      .run();
+
+    if (!response.success) {
+      throw new Error("Failed to record reels snapshot");
+    }
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,7 @@
+import { createClient } from "@supabase/supabase-js";
+
+const SUPABASE_URL = "https://vyiyzapirdkiateytpwo.supabase.co";
+
+// Service role key bypasses RLS – only ever create this client inside the Worker
+export const createSupabaseClient = (env: Env) =>
+  createClient(SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
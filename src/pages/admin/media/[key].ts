@@ -0,0 +1,13 @@
+import { createMediaStore, mediaResponse } from "@/lib/media";
+
+// Same-origin copy of /api/media for the admin pages, which can't send the
+// API token from an <img> tag
+export async function GET({
+  locals,
+  params,
+}: {
+  locals: App.Locals;
+  params: { key: string };
+}) {
+  return mediaResponse(createMediaStore(locals.runtime.env), params.key);
+}
@@ -0,0 +1,79 @@
+// Receives Apify's ad-hoc run-completion webhooks (registered when the enrichment workflow starts a run).
+// Finishes the run's stage for its lead, then wakes the workflow instance waiting on it.
+
+import { safeCompare } from "@/lib/api";
+import { createApifyClient, type WebhookPayload } from "@/lib/apify";
+import {
+  finishStageRun,
+  stageRunEventType,
+  WEBHOOK_SECRET_HEADER,
+} from "@/lib/enrichment/runs";
+import { ApifyRunService } from "@/lib/services/apify_run";
+
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const env = locals.runtime.env;
+
+  const secret = request.headers.get(WEBHOOK_SECRET_HEADER);
+  if (
+    !env.APIFY_WEBHOOK_SECRET ||
+    !(await safeCompare(env.APIFY_WEBHOOK_SECRET, secret))
+  ) {
+    return Response.json(
+      { message: "Invalid webhook secret" },
+      { status: 401 },
+    );
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const runId = payload.eventData?.actorRunId || payload.resource?.id;
+  if (!runId) {
+    return Response.json({ message: "Missing run id" }, { status: 400 });
+  }
+
+  // Runs we didn't start (or already cleaned up) are acknowledged so Apify stops retrying
+  const record = await new ApifyRunService(env.DB).getByRunId(runId);
+  if (!record) {
+    return Response.json({ success: true, ignored: true, runId });
+  }
+
+  try {
+    // Re-read the run rather than trusting the payload's copy of it
+    const run = await createApifyClient(env).getRun(runId);
+    const { duplicate, result } = await finishStageRun(env, run);
+
+    // Sent for duplicates too, since a retry after a failed sendEvent finds the
+    // run already finished. Each stage is waited for once, so repeats are unread
+    if (result && record.workflow_instance_id) {
+      const instance = await env.LEAD_ENRICHMENT_WORKFLOW.get(
+        record.workflow_instance_id,
+      );
+      await instance.sendEvent({
+        type: stageRunEventType(record.stage),
+        payload: result,
+      });
+    }
+
+    return Response.json({
+      success: true,
+      duplicate,
+      runId,
+      stage: record.stage,
+    });
+  } catch (err: any) {
+    // Non-2xx makes Apify retry the webhook later
+    console.error("Apify webhook error:", err);
+    return Response.json({ message: err.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+// Starts the LeadEnrichmentWorkflow (profile → reels → website → AI analysis) for a lead.
+// Poll GET /api/enrich_run?instanceId=... for progress; the finished output holds each stage's result.
+
+import { validateApiTokenResponse } from "@/lib/api";
+import { corsHeaders, jsonHeaders } from "@/lib/cors";
+import { normalizeHandle } from "@/lib/leads/handles";
+
+export async function OPTIONS() {
+  return new Response(null, { headers: corsHeaders });
+}
+
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { API_TOKEN, LEAD_ENRICHMENT_WORKFLOW } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) {
+    return new Response(invalidTokenResponse.body, {
+      status: invalidTokenResponse.status,
+      headers: jsonHeaders,
+    });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: "Invalid JSON body" },
+      { status: 400, headers: jsonHeaders },
+    );
+  }
+
+  const { leadId, force } = body;
+  const username =
+    typeof body.username === "string" ? normalizeHandle(body.username) : null;
+  if (!username || !leadId || typeof leadId !== "string") {
+    return Response.json(
+      { error: "Missing/invalid username or leadId" },
+      { status: 400, headers: jsonHeaders },
+    );
+  }
+
+  const instance = await LEAD_ENRICHMENT_WORKFLOW.create({
+    params: { username, leadId, force: force === true },
+  });
+
+  return Response.json(
+    { success: true, instanceId: instance.id, leadId },
+    { status: 202, headers: jsonHeaders },
+  );
+}
+
+export async function GET({
+  locals,
+  request,
+  url,
+}: {
+  locals: App.Locals;
+  request: Request;
+  url: URL;
+}) {
+  const { API_TOKEN, LEAD_ENRICHMENT_WORKFLOW } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) {
+    return new Response(invalidTokenResponse.body, {
+      status: invalidTokenResponse.status,
+      headers: jsonHeaders,
+    });
+  }
+
+  const instanceId = url.searchParams.get("instanceId");
+  if (!instanceId) {
+    return Response.json(
+      { error: "Missing instanceId" },
+      { status: 400, headers: jsonHeaders },
+    );
+  }
+
+  try {
+    const instance = await LEAD_ENRICHMENT_WORKFLOW.get(instanceId);
+    const status = await instance.status();
+    return Response.json(
+      { instanceId, ...status },
+      { status: 200, headers: jsonHeaders },
+    );
+  } catch (err) {
+    return Response.json(
+      { error: `Workflow instance not found: ${instanceId}` },
+      { status: 404, headers: jsonHeaders },
+    );
+  }
+}
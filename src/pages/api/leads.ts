@@ -0,0 +1,102 @@
+import { LEAD_COLUMNS } from "@/lib/services/lead";
+import { validateApiTokenResponse } from "@/lib/api";
+import { createLeadRepository, DuplicateLeadError } from "@/lib/leads";
+import { LeadQueryError, parseLeadFilters } from "@/lib/leads/filters";
+import { normalizeHandle } from "@/lib/leads/handles";
+
+export async function GET({
+  locals,
+  request,
+  url,
+}: {
+  locals: App.Locals;
+  request: Request;
+  url: URL;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let filters;
+  try {
+    filters = parseLeadFilters(url.searchParams);
+  } catch (err) {
+    if (err instanceof LeadQueryError) {
+      return Response.json({ message: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  try {
+    const leads = await createLeadRepository(env).listLeads(LEAD_COLUMNS, {
+      filters,
+    });
+    return Response.json({ leads });
+  } catch (err) {
+    console.error("Lead list error:", err);
+    return Response.json({ message: "Couldn't load leads" }, { status: 500 });
+  }
+}
+
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username =
+    typeof body?.username === "string" ? normalizeHandle(body.username) : null;
+  if (!username) {
+    return Response.json(
+      { message: "Missing/invalid username", success: false },
+      { status: 400 },
+    );
+  }
+
+  const leads = createLeadRepository(env);
+
+  // Only the username is taken from the body; enrichment fills in the rest
+  try {
+    const leadId = await leads.createLead(username);
+    return Response.json(
+      { message: "Lead created successfully", success: true, leadId },
+      { status: 201 },
+    );
+  } catch (err) {
+    if (err instanceof DuplicateLeadError) {
+      return Response.json(
+        {
+          message: "A lead with this username already exists",
+          success: false,
+          leadId: await leads.findLeadId(username),
+        },
+        { status: 409 },
+      );
+    }
+    console.error("Lead create error:", err);
+    return Response.json(
+      { message: "Couldn't create lead", success: false },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { LEAD_COLUMNS } from "@/lib/services/lead";
+import { validateApiTokenResponse } from "@/lib/api";
+import { createLeadRepository } from "@/lib/leads";
+
+export async function GET({
+  locals,
+  params,
+  request,
+}: {
+  locals: App.Locals;
+  params: { id: string };
+  request: Request;
+}) {
+  const { id } = params;
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let lead;
+  try {
+    lead = await createLeadRepository(env).getLead(id, LEAD_COLUMNS);
+  } catch {
+    return Response.json({ message: "Lead not found" }, { status: 404 });
+  }
+
+  return Response.json({ lead });
+}
+
+export async function DELETE({
+  locals,
+  params,
+  request,
+}: {
+  locals: App.Locals;
+  params: { id: string };
+  request: Request;
+}) {
+  const { id } = params;
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  const deleted = await createLeadRepository(env).deleteLead(id);
+
+  if (!deleted) {
+    return Response.json({ message: "Lead not found" }, { status: 404 });
+  }
+
+  return Response.json({ message: "Lead deleted successfully", success: true });
+}
@@ -0,0 +1,77 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import {
+  convertLeadToCustomer,
+  LeadConversionError,
+} from "@/lib/leads/conversion";
+
+type Params = {
+  id: string;
+};
+
+// Creates a customer from the lead and, with subscriptionId, assigns it a plan
+export async function POST({
+  locals,
+  request,
+  params,
+}: {
+  locals: App.Locals;
+  request: Request;
+  params: Params;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  // Body is optional; the email and name fall back to the lead's own
+  const body: any = await request.json().catch(() => ({}));
+  const { email, name } = body;
+  const subscriptionId =
+    body.subscriptionId === undefined || body.subscriptionId === null
+      ? undefined
+      : Number(body.subscriptionId);
+
+  if (
+    (email !== undefined && typeof email !== "string") ||
+    (name !== undefined && typeof name !== "string") ||
+    (subscriptionId !== undefined && !Number.isInteger(subscriptionId))
+  ) {
+    return Response.json(
+      { message: "Invalid email, name or subscriptionId", success: false },
+      { status: 400 },
+    );
+  }
+
+  const { id } = params;
+  try {
+    const result = await convertLeadToCustomer(env, id, {
+      email,
+      name,
+      subscriptionId,
+    });
+    return Response.json(
+      {
+        message: "Lead converted successfully",
+        success: true,
+        leadId: id,
+        ...result,
+      },
+      { status: 201 },
+    );
+  } catch (err: any) {
+    if (err instanceof LeadConversionError) {
+      return Response.json(
+        { message: err.message, success: false },
+        { status: err.status },
+      );
+    }
+    console.error(`Lead conversion error (${id}):`, err);
+    return Response.json(
+      { message: "Couldn't convert lead", success: false },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { parseDiscoveryOptions } from "@/lib/enrichment/discovery";
+import { createLeadRepository } from "@/lib/leads";
+
+type Params = {
+  id: string;
+};
+
+// Scrapes the seed lead's profile and turns its related profiles into new leads
+export async function POST({
+  locals,
+  request,
+  params,
+}: {
+  locals: App.Locals;
+  request: Request;
+  params: Params;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  // Body is optional; depth and maxPerSeed fall back to their defaults
+  const body: any = await request.json().catch(() => ({}));
+
+  const { id } = params;
+  let seed;
+  try {
+    seed = await createLeadRepository(env).getLead(id, ["username"]);
+  } catch {
+    return Response.json({ message: "Lead not found" }, { status: 404 });
+  }
+
+  const discovery = parseDiscoveryOptions(body);
+  const instance = await env.LEAD_ENRICHMENT_WORKFLOW.create({
+    params: {
+      username: seed.username,
+      leadId: id,
+      stages: ["profile"],
+      discovery,
+    },
+  });
+
+  return Response.json(
+    { success: true, instanceId: instance.id, ...discovery },
+    { status: 202 },
+  );
+}
@@ -0,0 +1,30 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { ReelsSnapshotService } from "@/lib/services/reels_snapshot";
+
+type Params = {
+  id: string;
+};
+
+// Every reels scrape of the lead, oldest first, for engagement trend charts
+export async function GET({
+  locals,
+  request,
+  params,
+}: {
+  locals: App.Locals;
+  request: Request;
+  params: Params;
+}) {
+  const { API_TOKEN, DB } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  const reelsSnapshotService = new ReelsSnapshotService(DB);
+  const snapshots = await reelsSnapshotService.getByLeadId(params.id);
+
+  return Response.json({ snapshots });
+}
@@ -0,0 +1,65 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import {
+  ENRICHMENT_STAGES,
+  type EnrichmentStage,
+} from "@/lib/enrichment/types";
+import { createLeadRepository } from "@/lib/leads";
+
+type Params = {
+  id: string;
+};
+
+// Runs one enrichment stage of a lead again, bypassing the profile cache and any stored analysis
+export async function POST({
+  locals,
+  request,
+  params,
+}: {
+  locals: App.Locals;
+  request: Request;
+  params: Params;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  const body: any = await request.json().catch(() => ({}));
+  const stage = body.stage as EnrichmentStage;
+  if (!ENRICHMENT_STAGES.includes(stage)) {
+    return Response.json(
+      { message: `stage must be one of: ${ENRICHMENT_STAGES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const { id } = params;
+  let lead;
+  try {
+    lead = await createLeadRepository(env).getLead(id, [
+      "username",
+      "raw_data",
+    ]);
+  } catch {
+    return Response.json({ message: "Lead not found" }, { status: 404 });
+  }
+
+  const instance = await env.LEAD_ENRICHMENT_WORKFLOW.create({
+    params: {
+      username: lead.username,
+      leadId: id,
+      // The website stage needs it, since the profile stage isn't rerun
+      externalUrl: lead.raw_data?.externalUrl ?? undefined,
+      stages: [stage],
+      force: true,
+    },
+  });
+
+  return Response.json(
+    { success: true, instanceId: instance.id, leadId: id, stage },
+    { status: 202 },
+  );
+}
@@ -0,0 +1,90 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { enqueueLeadMessages, MAX_BATCH_SIZE } from "@/lib/batch";
+import { createLeadRepository } from "@/lib/leads";
+import { normalizeHandle } from "@/lib/leads/handles";
+import { LeadBatchService } from "@/lib/services/lead_batch";
+
+// Queues profile, reels, website and AI enrichment for each username; poll GET /api/leads/batch/:id for progress
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { usernames } = body ?? {};
+  if (
+    !Array.isArray(usernames) ||
+    usernames.length === 0 ||
+    !usernames.every((username) => typeof username === "string" && username)
+  ) {
+    return Response.json(
+      { message: "usernames must be a non-empty array of strings" },
+      { status: 400 },
+    );
+  }
+  if (usernames.length > MAX_BATCH_SIZE) {
+    return Response.json(
+      { message: `A batch can hold at most ${MAX_BATCH_SIZE} usernames` },
+      { status: 400 },
+    );
+  }
+
+  const invalid = usernames.filter((username) => !normalizeHandle(username));
+  if (invalid.length) {
+    return Response.json(
+      { message: "Invalid Instagram usernames", invalid },
+      { status: 400 },
+    );
+  }
+
+  // Usernames that already belong to a lead enrich that lead instead of a duplicate
+  const handles = [...new Set(usernames.map(normalizeHandle) as string[])];
+  const leadRepository = createLeadRepository(env);
+  const existing = await leadRepository.findExistingUsernames(handles);
+  const created = await leadRepository.createLeads(
+    handles.filter((username) => !existing.has(username)),
+  );
+  // Created by a concurrent request between the lookup and the insert
+  const raced = handles.filter(
+    (username) => !existing.has(username) && !created.has(username),
+  );
+  if (raced.length) {
+    const racedIds = await leadRepository.findExistingUsernames(raced);
+    racedIds.forEach((leadId, username) => existing.set(username, leadId));
+  }
+  const leads = handles.flatMap((username) => {
+    const leadId = existing.get(username) ?? created.get(username);
+    return leadId ? [{ username, leadId }] : [];
+  });
+
+  const leadBatchService = new LeadBatchService(env.DB);
+  const { batchId, messages } = await leadBatchService.create(leads);
+  const mode = await enqueueLeadMessages(env, messages);
+
+  return Response.json(
+    {
+      success: true,
+      batchId,
+      total: leads.length,
+      existing: existing.size,
+      mode,
+    },
+    { status: 202 },
+  );
+}
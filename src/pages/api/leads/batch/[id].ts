@@ -0,0 +1,29 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { LeadBatchService } from "@/lib/services/lead_batch";
+
+export async function GET({
+  locals,
+  params,
+  request,
+}: {
+  locals: App.Locals;
+  params: { id: string };
+  request: Request;
+}) {
+  const { API_TOKEN, DB } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  const leadBatchService = new LeadBatchService(DB);
+  const progress = await leadBatchService.getProgress(params.id);
+
+  if (!progress) {
+    return Response.json({ message: "Batch not found" }, { status: 404 });
+  }
+
+  return Response.json({ batch: progress });
+}
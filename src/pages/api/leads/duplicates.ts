@@ -0,0 +1,30 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { findDuplicateLeads } from "@/lib/leads/duplicates";
+
+// Groups of leads whose usernames share a canonical Instagram handle
+export async function GET({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  try {
+    const duplicates = await findDuplicateLeads(env);
+    return Response.json({ duplicates });
+  } catch (err) {
+    console.error("Duplicate lead lookup error:", err);
+    return Response.json(
+      { message: "Couldn't look up duplicate leads", success: false },
+      { status: 500 },
+    );
+  }
+}
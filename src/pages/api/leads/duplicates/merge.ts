@@ -0,0 +1,55 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { LeadMergeError, mergeDuplicateLeads } from "@/lib/leads/duplicates";
+
+// Merges every lead sharing the handle into one; see mergeDuplicateLeads
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { handle } = body ?? {};
+  if (!handle || typeof handle !== "string") {
+    return Response.json(
+      { message: "Missing/invalid handle", success: false },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await mergeDuplicateLeads(env, handle);
+    return Response.json({
+      message: "Leads merged successfully",
+      success: true,
+      ...result,
+    });
+  } catch (err: any) {
+    if (err instanceof LeadMergeError) {
+      return Response.json(
+        { message: err.message, success: false },
+        { status: err.status },
+      );
+    }
+    console.error(`Lead merge error (${handle}):`, err);
+    return Response.json(
+      { message: "Couldn't merge leads", success: false },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import {
+  createLeadRepository,
+  LeadQueryError,
+  parseLeadFilters,
+} from "@/lib/leads";
+import {
+  parseExportColumns,
+  parseExportFormat,
+  streamLeadExport,
+} from "@/lib/leads/export";
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+// Streams leads as CSV or JSONL; takes the same filters as GET /api/leads
+export async function GET({
+  locals,
+  request,
+  url,
+}: {
+  locals: App.Locals;
+  request: Request;
+  url: URL;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let format, columns, filters;
+  try {
+    format = parseExportFormat(url.searchParams.get("format"));
+    columns = parseExportColumns(url.searchParams.get("columns"));
+    filters = parseLeadFilters(url.searchParams);
+  } catch (err) {
+    if (err instanceof LeadQueryError) {
+      return Response.json({ message: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  const stream = streamLeadExport(createLeadRepository(env), {
+    format,
+    columns,
+    filters,
+  });
+  const filename = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { enqueueLeadMessages, MAX_BATCH_SIZE } from "@/lib/batch";
+import { createLeadRepository } from "@/lib/leads";
+import { importLeadsCsv, LeadImportError } from "@/lib/leads/import";
+import { LeadBatchService } from "@/lib/services/lead_batch";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Reads the CSV and the enrich flag from a multipart upload (field "file") or a raw text/csv body
+const readUpload = async (request: Request, url: URL) => {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("multipart/form-data")) {
+    const form = await request.formData();
+    const file = form.get("file");
+    return {
+      csv: typeof file === "string" ? file : ((await file?.text()) ?? ""),
+      enrich: form.get("enrich") === "true",
+    };
+  }
+  return {
+    csv: await request.text(),
+    enrich: url.searchParams.get("enrich") === "true",
+  };
+};
+
+// Creates pending leads from a CSV of handles or profile URLs and reports on every row
+export async function POST({
+  locals,
+  request,
+  url,
+}: {
+  locals: App.Locals;
+  request: Request;
+  url: URL;
+}) {
+  const { env } = locals.runtime;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    env.API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  if (Number(request.headers.get("content-length")) > MAX_FILE_BYTES) {
+    return Response.json(
+      { message: `The file must be at most ${MAX_FILE_BYTES} bytes` },
+      { status: 413 },
+    );
+  }
+
+  let upload;
+  try {
+    upload = await readUpload(request, url);
+  } catch {
+    return Response.json({ message: "Invalid upload" }, { status: 400 });
+  }
+  if (!upload.csv.trim()) {
+    return Response.json({ message: "The CSV is empty" }, { status: 400 });
+  }
+
+  const leadRepository = createLeadRepository(env);
+  let report;
+  try {
+    // Enrichment runs as one batch, so it shares the batch route's cap
+    report = await importLeadsCsv(
+      leadRepository,
+      upload.csv,
+      upload.enrich ? { maxRows: MAX_BATCH_SIZE } : {},
+    );
+  } catch (err) {
+    if (err instanceof LeadImportError) {
+      return Response.json({ message: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  let batch;
+  const created = report.rows.filter((row) => row.status === "created");
+  if (upload.enrich && created.length) {
+    const { batchId, messages } = await new LeadBatchService(env.DB).create(
+      created.map((row) => ({ username: row.username!, leadId: row.leadId! })),
+    );
+    batch = { batchId, mode: await enqueueLeadMessages(env, messages) };
+  }
+
+  return Response.json(
+    { success: true, ...report, ...batch },
+    { status: report.created ? 201 : 200 },
+  );
+}
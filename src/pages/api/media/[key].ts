@@ -0,0 +1,23 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { createMediaStore, mediaResponse } from "@/lib/media";
+
+// Serves profile pictures and reel thumbnails stored by the enrichment chain
+export async function GET({
+  locals,
+  params,
+  request,
+}: {
+  locals: App.Locals;
+  params: { key: string };
+  request: Request;
+}) {
+  const { API_TOKEN } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  return mediaResponse(createMediaStore(locals.runtime.env), params.key);
+}
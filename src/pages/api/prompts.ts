@@ -0,0 +1,99 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import {
+  createPromptVersion,
+  ensureDefaultPrompts,
+  isPromptName,
+  PromptTemplateError,
+} from "@/lib/prompts";
+import { PromptTemplateService } from "@/lib/services/prompt_template";
+
+export async function GET({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { API_TOKEN, DB } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  try {
+    await ensureDefaultPrompts(locals.runtime.env);
+    const prompts = await new PromptTemplateService(DB).getAll();
+    return Response.json({ prompts });
+  } catch {
+    return Response.json({ message: "Couldn't load prompts" }, { status: 500 });
+  }
+}
+
+export async function POST({
+  locals,
+  request,
+}: {
+  locals: App.Locals;
+  request: Request;
+}) {
+  const { API_TOKEN } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { name, systemPrompt, userPrompt, notes, activate } = body ?? {};
+  if (!isPromptName(name)) {
+    return Response.json(
+      { message: "Missing/invalid prompt name", success: false },
+      { status: 400 },
+    );
+  }
+  if (
+    typeof systemPrompt !== "string" ||
+    typeof userPrompt !== "string" ||
+    !systemPrompt.trim() ||
+    !userPrompt.trim()
+  ) {
+    return Response.json(
+      { message: "systemPrompt and userPrompt are required", success: false },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const prompt = await createPromptVersion(locals.runtime.env, {
+      name,
+      systemPrompt,
+      userPrompt,
+      notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+      activate: activate === true,
+    });
+    return Response.json(
+      { message: "Prompt version created successfully", success: true, prompt },
+      { status: 201 },
+    );
+  } catch (err: any) {
+    if (err instanceof PromptTemplateError) {
+      return Response.json(
+        { message: err.message, success: false },
+        { status: 400 },
+      );
+    }
+    return Response.json(
+      { message: "Couldn't create prompt version", success: false },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { validateApiTokenResponse } from "@/lib/api";
+import { PromptTemplateService } from "@/lib/services/prompt_template";
+
+export async function POST({
+  locals,
+  params,
+  request,
+}: {
+  locals: App.Locals;
+  params: { id: string };
+  request: Request;
+}) {
+  const { API_TOKEN, DB } = locals.runtime.env;
+
+  const invalidTokenResponse = await validateApiTokenResponse(
+    request,
+    API_TOKEN,
+  );
+  if (invalidTokenResponse) return invalidTokenResponse;
+
+  const id = Number(params.id);
+  if (!Number.isInteger(id)) {
+    return Response.json({ message: "Invalid prompt ID" }, { status: 400 });
+  }
+
+  const promptTemplateService = new PromptTemplateService(DB);
+  const prompt = await promptTemplateService.getById(id);
+  if (!prompt) {
+    return Response.json({ message: "Prompt not found" }, { status: 404 });
+  }
+
+  try {
+    await promptTemplateService.activate(id);
+    return Response.json({
+      message: `${prompt.name} v${prompt.version} is now active`,
+      success: true,
+    });
+  } catch {
+    return Response.json(
+      { message: "Couldn't activate prompt version", success: false },
+      { status: 500 },
+    );
+  }
+}
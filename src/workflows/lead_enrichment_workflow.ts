@@ -0,0 +1,421 @@
+import { WorkflowEntrypoint, WorkflowStep } from "cloudflare:workers";
+import type { WorkflowEvent, WorkflowStepConfig } from "cloudflare:workers";
+
+import { finishBatchItem, startNextBatchItem } from "@/lib/batch/consumer";
+import { runAiStage } from "@/lib/enrichment/ai";
+import { runQualifyStage } from "@/lib/enrichment/qualify";
+import {
+  createApifyClient,
+  isRunActive,
+  type ActorId,
+  type ActorInputs,
+} from "@/lib/apify";
+import { discoverRelatedLeads } from "@/lib/enrichment/discovery";
+import {
+  buildProfileInput,
+  loadCachedProfileStage,
+  PROFILE_ACTOR_ID,
+} from "@/lib/enrichment/profile";
+import { lookupCachedProfile } from "@/lib/enrichment/profile_cache";
+import {
+  buildReelsInput,
+  REELS_ACTOR_ID,
+  reelsSampleSize,
+  skipReelsStage,
+} from "@/lib/enrichment/reels";
+import {
+  buildRunWebhooks,
+  finishStageRun,
+  stageRunEventType,
+} from "@/lib/enrichment/runs";
+import { failStage, startStage } from "@/lib/enrichment/status";
+import {
+  buildWebsiteInput,
+  loadCatalogWebsiteStage,
+  resolveStartUrl,
+  skipWebsiteStage,
+  WEBSITE_ACTOR_ID,
+} from "@/lib/enrichment/website";
+import {
+  ENRICHMENT_STAGES,
+  type ApifyStage,
+  type ApifyStageResult,
+  type DiscoveryOptions,
+  type DiscoveryResult,
+  type EnrichmentStage,
+  type LeadEnrichmentOutput,
+  type LeadEnrichmentParams,
+  type ProfileStageResult,
+  type ReelsStageResult,
+  type RelatedProfile,
+  type WebsiteStageResult,
+} from "@/lib/enrichment/types";
+import { ApifyRunService } from "@/lib/services/apify_run";
+
+// Waiting costs no wall time or subrequests, so runs can be given far longer
+// than a single request could hold open
+const RUN_DEADLINE_MS = 15 * 60_000;
+
+const STEP_CONFIG: WorkflowStepConfig = {
+  retries: { limit: 3, delay: "10 seconds", backoff: "exponential" },
+  timeout: "2 minutes",
+};
+
+type StageContext = {
+  leadId?: string;
+  username?: string;
+  externalUrl?: string;
+};
+
+/**
+ * Runs the lead enrichment chain (profile → reels → website → AI analysis →
+ * qualification) as durable steps. Each stage can also be run on its own by
+ * passing `stages`.
+ */
+export class LeadEnrichmentWorkflow extends WorkflowEntrypoint<
+  Env,
+  LeadEnrichmentParams
+> {
+  async run(event: WorkflowEvent<LeadEnrichmentParams>, step: WorkflowStep) {
+    const { batchItemId, leadId } = event.payload;
+    if (!batchItemId) return this.runStages(event, step, []);
+
+    // Started for a batch item, which was claimed as running before this
+    // instance was created; finishing frees its slot for the next item
+    const item = { itemId: batchItemId, leadId };
+    const reached: EnrichmentStage[] = [];
+    let output: LeadEnrichmentOutput | undefined;
+    let error: any;
+    try {
+      output = await this.runStages(event, step, reached);
+    } catch (err) {
+      error = err;
+    }
+
+    await step.do(
+      error ? "fail batch item" : "finish batch item",
+      STEP_CONFIG,
+      () => finishBatchItem(this.env, item, reached, error?.message ?? null),
+    );
+    await step.do("start next batch item", STEP_CONFIG, () =>
+      startNextBatchItem(this.env, batchItemId),
+    );
+    if (error) throw error;
+    return output;
+  }
+
+  // Runs the requested stages in order, adding each one to `reached` as it starts
+  private async runStages(
+    event: WorkflowEvent<LeadEnrichmentParams>,
+    step: WorkflowStep,
+    reached: EnrichmentStage[],
+  ) {
+    const {
+      username,
+      leadId,
+      stages = ENRICHMENT_STAGES,
+      force = false,
+      batchItemId,
+    } = event.payload;
+    const { instanceId } = event;
+    let externalUrl = event.payload.externalUrl ?? null;
+    const output: LeadEnrichmentOutput = {};
+
+    if (stages.includes("profile")) {
+      reached.push("profile");
+      if (!username) throw new Error("Profile stage requires a username");
+
+      const { cache, result: cached } = await step.do(
+        "check profile cache",
+        STEP_CONFIG,
+        () => loadCachedProfileStage(this.env, { username, leadId }, { force }),
+      );
+      let profile: ProfileStageResult;
+      try {
+        profile = cached ?? {
+          ...((await this.runApifyStage(
+            step,
+            instanceId,
+            "profile",
+            PROFILE_ACTOR_ID,
+            buildProfileInput(username),
+            { leadId, username },
+          )) as ProfileStageResult),
+          cache,
+        };
+      } catch (err: any) {
+        await step.do("fail profile stage", STEP_CONFIG, () =>
+          failStage(this.env, leadId, "profile", err.message),
+        );
+        throw err;
+      }
+      if (!profile.success) throw new Error(profile.error);
+
+      output.profile = profile;
+      externalUrl = profile.data.externalUrl;
+
+      if (event.payload.discovery && leadId) {
+        output.discovery = await this.runDiscovery(
+          step,
+          leadId,
+          profile.relatedAccounts ?? [],
+          event.payload.discovery,
+        );
+      }
+    }
+
+    if (stages.includes("reels")) {
+      reached.push("reels");
+      output.reels = await this.runReelsStage(
+        step,
+        instanceId,
+        username,
+        leadId,
+        event.payload.reelsSampleSize,
+      );
+    }
+
+    if (stages.includes("website")) {
+      reached.push("website");
+      output.website = await this.runWebsiteStage(
+        step,
+        instanceId,
+        externalUrl,
+        leadId,
+      );
+    }
+
+    if (stages.includes("ai") && leadId) {
+      reached.push("ai");
+      output.ai = await step.do("run ai stage", STEP_CONFIG, () =>
+        runAiStage(this.env, leadId, batchItemId ? "batch" : "workflow", {
+          force,
+        }),
+      );
+    }
+
+    if (stages.includes("qualify") && leadId) {
+      reached.push("qualify");
+      output.qualify = await step.do("run qualify stage", STEP_CONFIG, () =>
+        runQualifyStage(this.env, leadId),
+      );
+    }
+
+    return output;
+  }
+
+  /**
+   * Starts an actor run and waits for its stage to finish. With webhooks
+   * configured, /api/apify/webhook finishes the stage and sends us the result;
+   * otherwise (or if no callback arrives in time) we poll with the client's
+   * backoff and finish the stage ourselves.
+   */
+  private async runApifyStage<A extends ActorId>(
+    step: WorkflowStep,
+    instanceId: string,
+    stage: ApifyStage,
+    actorId: A,
+    input: ActorInputs[A],
+    context: StageContext,
+  ): Promise<ApifyStageResult> {
+    const apify = createApifyClient(this.env, {
+      polling: { deadlineMs: RUN_DEADLINE_MS },
+    });
+    const webhooks = buildRunWebhooks(this.env);
+
+    const started = await step.do(`start ${stage} run`, STEP_CONFIG, () =>
+      apify.startRun(actorId, input, { webhooks }),
+    );
+    await step.do(`record ${stage} run`, STEP_CONFIG, () =>
+      new ApifyRunService(this.env.DB).create({
+        runId: started.id,
+        stage,
+        status: started.status,
+        workflowInstanceId: instanceId,
+        ...context,
+      }),
+    );
+    await step.do(`mark ${stage} running`, STEP_CONFIG, () =>
+      startStage(this.env, context.leadId, stage, { apifyRunId: started.id }),
+    );
+
+    if (webhooks) {
+      try {
+        const event = await step.waitForEvent<ApifyStageResult>(
+          `wait for ${stage} webhook`,
+          { type: stageRunEventType(stage), timeout: RUN_DEADLINE_MS },
+        );
+        return event.payload;
+      } catch (err) {
+        console.warn(
+          `No webhook for ${stage} run ${started.id}; polling instead`,
+        );
+      }
+    }
+
+    let run = started;
+    let waitedMs = 0;
+    for (let poll = 1; isRunActive(run.status); poll++) {
+      const delay = apify.pollInterval(poll);
+      if (waitedMs + delay > RUN_DEADLINE_MS) break;
+
+      await step.sleep(`wait for ${stage} run ${poll}`, delay);
+      waitedMs += delay;
+      run = await step.do(`check ${stage} run ${poll}`, STEP_CONFIG, () =>
+        apify.getRun(started.id),
+      );
+    }
+
+    let error: string | undefined;
+    try {
+      apify.ensureSucceeded(run);
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    const result = await step.do(
+      `finish ${stage} run`,
+      STEP_CONFIG,
+      async () => (await finishStageRun(this.env, run, error)).result,
+    );
+    return (
+      result ?? {
+        success: false,
+        error: `The ${stage} run is still being finished by its webhook`,
+      }
+    );
+  }
+
+  /**
+   * Turns related profiles into leads, then starts a profile-only instance per
+   * new lead to crawl the next level until `depth` is reached.
+   */
+  private async runDiscovery(
+    step: WorkflowStep,
+    leadId: string,
+    relatedAccounts: RelatedProfile[],
+    discovery: DiscoveryOptions,
+  ): Promise<DiscoveryResult> {
+    const { depth, maxPerSeed, seedLeadId = leadId, level = 0 } = discovery;
+
+    const { created, existing } = await step.do(
+      "discover related leads",
+      STEP_CONFIG,
+      () =>
+        discoverRelatedLeads(this.env, relatedAccounts, {
+          seedLeadId,
+          level,
+          maxPerSeed,
+        }),
+    );
+
+    let crawlInstanceIds: string[] = [];
+    if (level + 1 < depth && created.length > 0) {
+      crawlInstanceIds = await step.do(
+        "crawl next discovery level",
+        STEP_CONFIG,
+        async () => {
+          const instances = await this.env.LEAD_ENRICHMENT_WORKFLOW.createBatch(
+            created.map((lead) => ({
+              // Leads are discovered once and createBatch skips existing IDs,
+              // so a retried step can't start the same crawl twice
+              id: `discover-${lead.leadId}`,
+              params: {
+                username: lead.username,
+                leadId: lead.leadId,
+                stages: ["profile"],
+                discovery: { depth, maxPerSeed, seedLeadId, level: level + 1 },
+              },
+            })),
+          );
+          return instances.map((instance) => instance.id);
+        },
+      );
+    }
+
+    return { created, existing, crawlInstanceIds };
+  }
+
+  // Reels and website problems are recorded on the stage instead of failing the chain
+  private async runReelsStage(
+    step: WorkflowStep,
+    instanceId: string,
+    username: string | undefined,
+    leadId: string | undefined,
+    sampleSize?: number,
+  ) {
+    try {
+      if (!username) {
+        return step.do("skip reels stage", STEP_CONFIG, () =>
+          skipReelsStage(this.env, leadId, "Missing username—reels skipped"),
+        );
+      }
+
+      // Private accounts have no public reels; don't pay for a run to find out
+      const { entry } = await step.do(
+        "check profile cache for reels",
+        STEP_CONFIG,
+        () => lookupCachedProfile(this.env, username),
+      );
+      if (entry?.data.restricted) {
+        return step.do("skip reels stage", STEP_CONFIG, () =>
+          skipReelsStage(this.env, leadId, "Private account—reels skipped"),
+        );
+      }
+
+      return (await this.runApifyStage(
+        step,
+        instanceId,
+        "reels",
+        REELS_ACTOR_ID,
+        buildReelsInput(username, reelsSampleSize(this.env, sampleSize)),
+        { leadId, username },
+      )) as ReelsStageResult;
+    } catch (err: any) {
+      console.error("Reels stage error:", err);
+      return step.do("fail reels stage", STEP_CONFIG, () =>
+        failStage(this.env, leadId, "reels", err.message),
+      );
+    }
+  }
+
+  private async runWebsiteStage(
+    step: WorkflowStep,
+    instanceId: string,
+    externalUrl: string | null,
+    leadId: string | undefined,
+  ) {
+    try {
+      if (!externalUrl) {
+        return step.do("skip website stage", STEP_CONFIG, () =>
+          skipWebsiteStage(this.env, leadId, "No externalUrl—website skipped"),
+        );
+      }
+
+      // Storefronts with a structured catalog don't need a crawl
+      const catalogResult = await step.do(
+        "check storefront catalog",
+        STEP_CONFIG,
+        () => loadCatalogWebsiteStage(this.env, { externalUrl, leadId }),
+      );
+      if (catalogResult) return catalogResult;
+
+      const startUrl = await step.do("resolve website url", STEP_CONFIG, () =>
+        resolveStartUrl(externalUrl),
+      );
+      return (await this.runApifyStage(
+        step,
+        instanceId,
+        "website",
+        WEBSITE_ACTOR_ID,
+        buildWebsiteInput(startUrl),
+        { leadId, externalUrl },
+      )) as WebsiteStageResult;
+    } catch (err: any) {
+      console.error("Website stage error:", err);
+      return step.do("fail website stage", STEP_CONFIG, () =>
+        failStage(this.env, leadId, "website", err.message),
+      );
+    }
+  }
+}
@@ -0,0 +1,80 @@
+-- The Supabase `leads` table used when LEAD_STORE=supabase (the default).
+-- Run it in the SQL editor. It is safe to run again: an existing table gains
+-- any column it's missing. Mirrors the D1 `leads` table in migrations/, with
+-- jsonb for the JSON columns (see src/lib/services/lead.ts).
+
+create table if not exists leads (
+    id uuid primary key default gen_random_uuid(),
+    username text not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- Profile stage (0005, 0006)
+alter table leads add column if not exists raw_data jsonb;
+alter table leads add column if not exists profile_picture_key text;
+alter table leads add column if not exists profile_picture_url text;
+
+-- Reels stage (0005, 0010)
+alter table leads add column if not exists reels jsonb;
+alter table leads add column if not exists reels_metrics jsonb;
+alter table leads add column if not exists er_avg double precision;
+alter table leads add column if not exists has_reels boolean;
+
+-- Website stage and concise_run (0005, 0013)
+alter table leads add column if not exists website_data jsonb;
+alter table leads add column if not exists has_website boolean;
+alter table leads add column if not exists website_summary jsonb;
+
+-- AI analysis and qualification (0005)
+alter table leads add column if not exists openai jsonb;
+alter table leads add column if not exists ai_analysis_complete boolean not null default false;
+alter table leads add column if not exists qualification jsonb;
+alter table leads add column if not exists qualification_score integer;
+alter table leads add column if not exists qualification_tier text;
+
+-- Contacts (0016)
+alter table leads add column if not exists contacts jsonb;
+
+-- Related-profile discovery (0008)
+alter table leads add column if not exists seed_lead_id uuid;
+alter table leads add column if not exists discovery_depth integer;
+
+-- Lead → customer conversion (0015); customers live in D1
+alter table leads add column if not exists customer_id integer;
+
+-- Per-stage enrichment status (0014)
+alter table leads add column if not exists profile_status jsonb;
+alter table leads add column if not exists reels_status jsonb;
+alter table leads add column if not exists website_status jsonb;
+alter table leads add column if not exists ai_status jsonb;
+alter table leads add column if not exists qualify_status jsonb;
+
+create index if not exists idx_leads_username on leads(username);
+create index if not exists idx_leads_qualification_score on leads(qualification_score);
+create index if not exists idx_leads_seed_lead_id on leads(seed_lead_id);
+create index if not exists idx_leads_created_at on leads(created_at desc, id);
+
+create or replace function set_leads_updated_at() returns trigger as $$
+begin
+    new.updated_at = now();
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists update_leads_updated_at on leads;
+create trigger update_leads_updated_at
+    before update on leads
+    for each row execute function set_leads_updated_at();
+
+-- Usernames are unique (0017). Merge existing duplicates first (see the
+-- README), or adding the constraint fails.
+do $$
+begin
+    if not exists (
+        select 1 from pg_constraint where conname = 'leads_username_key'
+    ) then
+        alter table leads add constraint leads_username_key unique (username);
+    end if;
+end;
+$$;
@@ -4,8 +4,31 @@
 declare namespace Cloudflare {
 	interface Env {
 		EXAMPLE_VALUE: "example_value";
+		APIFY_BASE_URL: string;
+		APIFY_MODE: string;
+		LEAD_QUEUE_MODE: string;
+		LEAD_STORE: string;
+		LLM_DAILY_BUDGET_USD: string;
+		LLM_MODELS: string;
+		LLM_MONTHLY_BUDGET_USD: string;
+		LLM_PROVIDER: string;
+		LLM_TIMEOUT_MS: string;
+		MEDIA_PUBLIC_URL: string;
+		PROFILE_CACHE_TTL_SECONDS: string;
+		REELS_SAMPLE_SIZE: string;
+		API_TOKEN: string;
+		APIFY_TOKEN: string;
+		APIFY_WEBHOOK_SECRET: string;
+		APP_URL: string;
+		OPENAI_API_KEY: string;
+		QUALIFICATION_RUBRIC: string;
+		SUPABASE_SERVICE_ROLE_KEY: string;
+		AI: Ai;
 		DB: D1Database;
+		MEDIA_BUCKET: R2Bucket;
 		CUSTOMER_WORKFLOW: Workflow;
+		LEAD_ENRICHMENT_WORKFLOW: Workflow;
+		LEAD_QUEUE: Queue;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -13,7 +36,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "EXAMPLE_VALUE">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "EXAMPLE_VALUE" | "APIFY_BASE_URL" | "APIFY_MODE" | "LEAD_QUEUE_MODE" | "LEAD_STORE" | "LLM_DAILY_BUDGET_USD" | "LLM_MODELS" | "LLM_MONTHLY_BUDGET_USD" | "LLM_PROVIDER" | "LLM_TIMEOUT_MS" | "MEDIA_PUBLIC_URL" | "PROFILE_CACHE_TTL_SECONDS" | "REELS_SAMPLE_SIZE" | "API_TOKEN" | "APIFY_TOKEN" | "APIFY_WEBHOOK_SECRET" | "APP_URL" | "OPENAI_API_KEY" | "QUALIFICATION_RUBRIC" | "SUPABASE_SERVICE_ROLE_KEY">> {}
 }
 
 // Begin runtime types